@@ -22,6 +22,7 @@ import {
 } from 'lucide-react';
 import { ThemeToggle } from './components/ThemeToggle';
 import { blogPosts } from './data/blog';
+import { MailMessage } from './types/api';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -43,6 +44,7 @@ function AppContent() {
   const [isScrolled, setIsScrolled] = useState(false);
   const [activeBlogModal, setActiveBlogModal] = useState<string | null>(null);
   const [selectedMessageId, setSelectedMessageId] = useState<string | null>(null);
+  const [selectedThread, setSelectedThread] = useState<MailMessage[] | undefined>(undefined);
   const [currentView, setCurrentView] = useState<ViewMode>('home');
   const [showFeedbackModal, setShowFeedbackModal] = useState(false);
   const [feedback, setFeedback] = useState({ name: '', email: '', message: '' });
@@ -88,13 +90,15 @@ function AppContent() {
     setIsMenuOpen(false);
   };
 
-  const handleMessageSelect = (messageId: string) => {
+  const handleMessageSelect = (messageId: string, thread?: MailMessage[]) => {
     setSelectedMessageId(messageId);
+    setSelectedThread(thread);
     setCurrentView('message');
   };
 
   const handleBackToInbox = () => {
     setSelectedMessageId(null);
+    setSelectedThread(undefined);
     setCurrentView('inbox');
   };
 
@@ -168,6 +172,7 @@ function AppContent() {
                     messageId={selectedMessageId} 
                     onClose={handleBackToInbox}
                     embedded={true}
+                    thread={selectedThread}
                   />
                 </Suspense>
               </div>
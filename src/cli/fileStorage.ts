@@ -0,0 +1,55 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { KeyValueStorage } from '../sdk';
+
+/**
+ * Key/value storage kept in one JSON file, the CLI's stand-in for
+ * `localStorage`. The file holds inbox passwords and tokens, so it is only
+ * readable by its owner.
+ */
+export class FileStorage implements KeyValueStorage {
+  private readonly items: Record<string, string>;
+
+  constructor(private readonly path: string) {
+    this.items = this.load();
+  }
+
+  getItem(key: string): string | null {
+    return Object.prototype.hasOwnProperty.call(this.items, key) ? this.items[key] : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items[key] = value;
+    this.save();
+  }
+
+  removeItem(key: string): void {
+    delete this.items[key];
+    this.save();
+  }
+
+  private load(): Record<string, string> {
+    let contents: string;
+    try {
+      contents = readFileSync(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+
+    try {
+      const parsed = JSON.parse(contents);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      throw new Error(`Storage file ${this.path} is not valid JSON`);
+    }
+  }
+
+  private save(): void {
+    mkdirSync(dirname(this.path), { recursive: true, mode: 0o700 });
+    // Write then rename so an interrupted run never leaves a truncated file
+    const tempPath = `${this.path}.${process.pid}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(this.items, null, 2), { mode: 0o600 });
+    renameSync(tempPath, this.path);
+  }
+}
@@ -0,0 +1,292 @@
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { StoredAccount, TempBoxClient } from '../sdk';
+import { formatDistanceToNow } from '../utils/dateUtils';
+import { InboxLifetime, LIFETIME_OPTIONS } from '../utils/lifetime';
+import { FileStorage } from './fileStorage';
+
+const USAGE = `Usage: tempbox <command> [options]
+
+Commands:
+  new                     Create an inbox and make it the current one
+  restore <address>       Sign back into an inbox (needs --password)
+  inboxes                 List stored inboxes, newest first
+  domains                 List domains inboxes can be created on
+  list                    List messages in the current inbox
+  read <message-id>       Show a message
+  wait                    Wait for a matching message and show it
+  rm [message-id]         Delete a message, or the current inbox when no ID is given
+
+Options:
+  -i, --inbox <address>   Inbox to use instead of the newest one ($TEMPBOX_INBOX)
+      --json              Print JSON for scripting
+      --store <file>      Credentials file ($TEMPBOX_STORE, ~/.tempbox/storage.json)
+  -v, --verbose           Log API activity to stderr
+  -h, --help              Show this help
+
+  new:      --domain <domain>  --username <name>  --template <pattern>  --lifetime <10m|1h|24h|forever>
+  restore:  --password <password>
+  inboxes:  --all              include expired inboxes
+  read:     --text | --html | --raw
+  wait:     --from <text>  --subject <text>  --body <text>  --timeout <seconds>
+            --new              ignore messages that arrived before the command started
+            --otp | --link     print only the one-time code or verification link
+`;
+
+const OPTIONS = {
+  inbox: { type: 'string', short: 'i' },
+  json: { type: 'boolean' },
+  store: { type: 'string' },
+  verbose: { type: 'boolean', short: 'v' },
+  help: { type: 'boolean', short: 'h' },
+  domain: { type: 'string' },
+  username: { type: 'string' },
+  template: { type: 'string' },
+  lifetime: { type: 'string' },
+  password: { type: 'string' },
+  all: { type: 'boolean' },
+  text: { type: 'boolean' },
+  html: { type: 'boolean' },
+  raw: { type: 'boolean' },
+  from: { type: 'string' },
+  subject: { type: 'string' },
+  body: { type: 'string' },
+  timeout: { type: 'string' },
+  new: { type: 'boolean' },
+  otp: { type: 'boolean' },
+  link: { type: 'boolean' },
+} as const;
+
+type CliOptions = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+const DEFAULT_WAIT_TIMEOUT_SECONDS = 60;
+
+/**
+ * Bad arguments; reported with exit code 2
+ */
+class UsageError extends Error {}
+
+function print(options: CliOptions, data: unknown, text: string) {
+  process.stdout.write(`${options.json ? JSON.stringify(data, null, 2) : text}\n`);
+}
+
+function describeExpiry(account: Pick<StoredAccount, 'expiresAt'>): string {
+  if (!account.expiresAt) return 'never expires';
+  const msLeft = account.expiresAt.getTime() - Date.now();
+  return msLeft <= 0 ? 'expired' : `expires in ${Math.ceil(msLeft / 60000)}m`;
+}
+
+function parseLifetime(value: string | undefined): InboxLifetime | undefined {
+  if (value === undefined) return undefined;
+  const option = LIFETIME_OPTIONS.find(o => o.id === value);
+  if (!option) {
+    throw new UsageError(`Unknown lifetime "${value}", use one of ${LIFETIME_OPTIONS.map(o => o.id).join(', ')}`);
+  }
+  return option.id;
+}
+
+/**
+ * The inbox named by --inbox or $TEMPBOX_INBOX, else the newest one still alive
+ */
+function currentInbox(client: TempBoxClient, options: CliOptions): StoredAccount {
+  const ref = options.inbox ?? process.env.TEMPBOX_INBOX;
+  if (ref) {
+    const inbox = client.getInbox(ref);
+    if (!inbox || inbox.deleted) throw new UsageError(`Unknown inbox: ${ref}`);
+    return inbox;
+  }
+
+  const [newest] = client.listInboxes();
+  if (!newest) throw new UsageError('No inbox yet, create one with `tempbox new`');
+  return newest;
+}
+
+async function run(client: TempBoxClient, command: string, args: string[], options: CliOptions): Promise<number> {
+  switch (command) {
+    case 'new': {
+      const inbox = await client.createInbox({
+        domain: options.domain,
+        username: options.username,
+        template: options.template,
+        lifetime: parseLifetime(options.lifetime),
+      });
+      print(
+        options,
+        { id: inbox.account.id, address: inbox.account.address, password: inbox.password, expiresAt: inbox.expiresAt },
+        `${inbox.account.address}\npassword: ${inbox.password}\n${describeExpiry(inbox)}`,
+      );
+      return 0;
+    }
+
+    case 'restore': {
+      const [address] = args;
+      if (!address || !options.password) throw new UsageError('Usage: tempbox restore <address> --password <password>');
+      const inbox = await client.restoreInbox({
+        address,
+        password: options.password,
+        lifetime: parseLifetime(options.lifetime),
+      });
+      print(
+        options,
+        { id: inbox.account.id, address: inbox.account.address, expiresAt: inbox.expiresAt },
+        `${inbox.account.address}\n${describeExpiry(inbox)}`,
+      );
+      return 0;
+    }
+
+    case 'inboxes': {
+      const inboxes = client.listInboxes({ includeExpired: options.all });
+      print(
+        options,
+        inboxes.map(({ id, address, createdAt, expiresAt }) => ({ id, address, createdAt, expiresAt })),
+        inboxes.length === 0
+          ? 'No inboxes'
+          : inboxes.map(inbox => `${inbox.address}  ${describeExpiry(inbox)}`).join('\n'),
+      );
+      return 0;
+    }
+
+    case 'domains': {
+      const domains = await client.getDomains();
+      print(options, domains.map(d => d.domain), domains.map(d => d.domain).join('\n'));
+      return 0;
+    }
+
+    case 'list': {
+      const inbox = currentInbox(client, options);
+      const { items } = await client.listMessages(inbox);
+      print(
+        options,
+        items,
+        items.length === 0
+          ? `No messages in ${inbox.address}`
+          : items
+            .map(m => `${m.seen ? ' ' : '*'} ${m.id}  ${formatDistanceToNow(new Date(m.createdAt)).padEnd(8)}  ${m.from?.address ?? 'unknown'}  ${m.subject || '(No subject)'}`)
+            .join('\n'),
+      );
+      return 0;
+    }
+
+    case 'read': {
+      const [messageId] = args;
+      if (!messageId) throw new UsageError('Usage: tempbox read <message-id> [--text | --html | --raw]');
+      const inbox = currentInbox(client, options);
+
+      if (options.raw) {
+        const source = await client.getMessageSource(inbox, messageId);
+        print(options, source, source.data);
+        return 0;
+      }
+
+      const message = await client.getMessage(inbox, messageId);
+      let text: string;
+      if (options.text) {
+        text = message.text || message.intro || '';
+      } else if (options.html) {
+        text = message.html.join('\n');
+      } else {
+        text = [
+          `From:    ${message.from?.name ? `${message.from.name} <${message.from.address}>` : message.from?.address}`,
+          `To:      ${message.to.map(to => to.address).join(', ')}`,
+          `Subject: ${message.subject || '(No subject)'}`,
+          `Date:    ${new Date(message.createdAt).toLocaleString()}`,
+          ...message.attachments.map(a => `Attach:  ${a.filename} (${a.size} bytes)`),
+          '',
+          message.text || message.intro || '(No text content)',
+        ].join('\n');
+      }
+      print(options, message, text);
+      return 0;
+    }
+
+    case 'wait': {
+      const inbox = currentInbox(client, options);
+      const timeoutSeconds = options.timeout === undefined ? DEFAULT_WAIT_TIMEOUT_SECONDS : Number(options.timeout);
+      if (!Number.isFinite(timeoutSeconds) || timeoutSeconds <= 0) {
+        throw new UsageError(`Invalid --timeout "${options.timeout}", expected seconds`);
+      }
+
+      process.stderr.write(`Waiting for mail to ${inbox.address}...\n`);
+      const message = await client.waitForMessage(inbox, {
+        from: options.from,
+        subject: options.subject,
+        bodyMatches: options.body,
+        timeoutMs: timeoutSeconds * 1000,
+        since: options.new ? new Date() : undefined,
+      });
+
+      if (options.otp || options.link) {
+        const kind = options.otp ? 'code' : 'link';
+        const candidate = client.extractVerifications(message).find(c => c.kind === kind);
+        if (!candidate) {
+          process.stderr.write(`Message ${message.id} ("${message.subject}") has no ${options.otp ? 'one-time code' : 'verification link'}\n`);
+          return 1;
+        }
+        print(options, { messageId: message.id, kind, value: candidate.value }, candidate.value);
+        return 0;
+      }
+
+      print(options, message, `${message.id}  ${message.from?.address}  ${message.subject || '(No subject)'}\n\n${message.text || message.intro || ''}`);
+      return 0;
+    }
+
+    case 'rm': {
+      const [messageId] = args;
+      const inbox = currentInbox(client, options);
+      if (messageId) {
+        await client.deleteMessage(inbox, messageId);
+        print(options, { deleted: messageId }, `Deleted message ${messageId}`);
+      } else {
+        await client.deleteInbox(inbox);
+        print(options, { deleted: inbox.address }, `Deleted inbox ${inbox.address}`);
+      }
+      return 0;
+    }
+
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+  } catch (error) {
+    process.stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values: options, positionals: [command, ...args] } = parsed;
+  if (options.help || !command || command === 'help') {
+    process.stdout.write(USAGE);
+    return command || options.help ? 0 : 2;
+  }
+
+  // The SDK logs to the console; keep stdout for command output
+  const log = options.verbose ? console.error.bind(console) : () => undefined;
+  console.log = console.info = console.warn = console.error = log;
+
+  const storePath = options.store ?? process.env.TEMPBOX_STORE ?? join(homedir(), '.tempbox', 'storage.json');
+
+  try {
+    const client = new TempBoxClient({ storage: new FileStorage(storePath) });
+    return await run(client, command, args, options);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      process.stderr.write(`${error.message}\n`);
+      return 2;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    if (options.json) {
+      process.stdout.write(`${JSON.stringify({ error: message }, null, 2)}\n`);
+    }
+    process.stderr.write(`tempbox: ${message}\n`);
+    return 1;
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
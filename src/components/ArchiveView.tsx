@@ -0,0 +1,352 @@
+import { useMemo, useState } from 'react';
+import { Archive, ArrowLeft, Download, Loader2, Paperclip, Trash2, XCircle } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import DOMPurify from 'dompurify';
+import toast from 'react-hot-toast';
+import { useArchivedAttachmentIds, useArchivedMessages, useArchiveSummaries } from '../hooks/useArchive';
+import { archiveService, ArchivePolicy, ArchiveRetention, ARCHIVE_RETENTION_OPTIONS } from '../services/archiveService';
+import { storageService, StoredAccount } from '../services/storageService';
+import { MailAttachment, MailMessageDetail } from '../types/api';
+import { downloadBlob, formatFileSize } from '../utils/fileUtils';
+import { isExpired } from '../utils/lifetime';
+
+interface ArchiveViewProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface ArchivedInbox {
+  id: string;
+  address: string;
+  /**
+   * Stored record of the inbox, gone once storage has dropped it
+   */
+  account: StoredAccount | null;
+}
+
+function getInboxStatus(account: StoredAccount | null): { label: string; className: string } {
+  if (!account) {
+    return { label: 'Archived', className: 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300' };
+  }
+  if (account.deleted) {
+    return { label: 'Deleted', className: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-200' };
+  }
+  if (isExpired(account.expiresAt)) {
+    return { label: 'Expired', className: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-200' };
+  }
+  return { label: 'Active', className: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-200' };
+}
+
+function ArchivedAttachments({ message }: { message: MailMessageDetail }) {
+  const { data: archivedIds } = useArchivedAttachmentIds(message.id);
+
+  const handleDownload = async (attachment: MailAttachment) => {
+    const blob = await archiveService.getAttachment(message.id, attachment.id);
+    if (blob) downloadBlob(blob, attachment.filename);
+    else toast.error('This attachment is no longer archived');
+  };
+
+  if (!message.attachments?.length) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {message.attachments.map(attachment => {
+        const isArchived = archivedIds?.has(attachment.id) ?? false;
+        return (
+          <button
+            key={attachment.id}
+            onClick={() => handleDownload(attachment)}
+            disabled={!isArchived}
+            className="flex items-center space-x-2 px-3 py-1 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-700/30 text-sm text-slate-800 dark:text-slate-200 hover:border-violet-400 disabled:opacity-50 disabled:hover:border-slate-200 focus:outline-none focus:ring-2 focus:ring-violet-400"
+            title={isArchived ? 'Download archived copy' : 'Only attachments opened before are archived'}
+          >
+            {isArchived ? <Download className="w-4 h-4" /> : <Paperclip className="w-4 h-4" />}
+            <span className="max-w-[12rem] truncate">{attachment.filename}</span>
+            <span className="text-xs text-slate-500 dark:text-slate-400">{formatFileSize(attachment.size)}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+function ArchivedMessageView({ message, onBack }: { message: MailMessageDetail; onBack: () => void }) {
+  const hasHtml = (message.html?.length ?? 0) > 0;
+  const [showHtml, setShowHtml] = useState(hasHtml);
+  // Rendered in a sandboxed frame, so archived mail can never run script or reach the app
+  const html = useMemo(() => (hasHtml ? DOMPurify.sanitize(message.html.join('')) : ''), [hasHtml, message.html]);
+
+  return (
+    <div className="space-y-4">
+      <button
+        onClick={onBack}
+        className="flex items-center space-x-2 text-sm text-violet-600 dark:text-violet-400 hover:text-violet-700 dark:hover:text-violet-300"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        <span>Back to messages</span>
+      </button>
+
+      <div className="space-y-1">
+        <h4 className="font-display text-lg font-bold text-slate-800 dark:text-slate-200">
+          {message.subject || '(No subject)'}
+        </h4>
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          From {message.from?.name ? `${message.from.name} <${message.from.address}>` : message.from?.address}
+        </p>
+        <p className="text-xs text-slate-500 dark:text-slate-500">
+          {new Date(message.createdAt).toLocaleString()}
+        </p>
+      </div>
+
+      <ArchivedAttachments message={message} />
+
+      {hasHtml && (
+        <div className="flex space-x-2">
+          {[true, false].map(html => (
+            <button
+              key={String(html)}
+              onClick={() => setShowHtml(html)}
+              className={`px-3 py-1 rounded-lg text-xs font-medium ${
+                showHtml === html
+                  ? 'bg-violet-600 text-white'
+                  : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300'
+              }`}
+            >
+              {html ? 'HTML' : 'TEXT'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {showHtml ? (
+        <iframe
+          sandbox=""
+          srcDoc={html}
+          title={message.subject || 'Archived message'}
+          className="w-full h-[50vh] rounded-xl border border-slate-200 dark:border-slate-700 bg-white"
+        />
+      ) : (
+        <pre className="whitespace-pre-wrap font-sans text-sm break-words text-slate-800 dark:text-slate-200 bg-slate-50 dark:bg-slate-700/50 rounded-xl p-4">
+          {message.text || message.intro || '(No text content)'}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+function InboxArchive({ inbox }: { inbox: ArchivedInbox }) {
+  const queryClient = useQueryClient();
+  const [policy, setPolicy] = useState<ArchivePolicy>(() => archiveService.getPolicy(inbox.id));
+  const [selectedMessage, setSelectedMessage] = useState<MailMessageDetail | null>(null);
+  const { data: messages, isLoading, error } = useArchivedMessages(inbox.id);
+
+  const updatePolicy = async (changes: Partial<ArchivePolicy>) => {
+    setPolicy(archiveService.setPolicy(inbox.id, changes));
+    if (changes.retention) {
+      await archiveService.pruneExpired();
+      queryClient.invalidateQueries({ queryKey: ['archive-summaries'] });
+      queryClient.invalidateQueries({ queryKey: ['archive-messages', inbox.id] });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete all archived mail of ${inbox.address}? This action cannot be undone.`)) return;
+    try {
+      await archiveService.deleteArchive(inbox.id);
+      setSelectedMessage(null);
+      toast.success('Archive deleted');
+    } catch (deleteError) {
+      console.error('Failed to delete archive:', deleteError);
+      toast.error('Failed to delete archive');
+    }
+    queryClient.invalidateQueries({ queryKey: ['archive-summaries'] });
+    queryClient.invalidateQueries({ queryKey: ['archive-messages', inbox.id] });
+  };
+
+  if (selectedMessage) {
+    return <ArchivedMessageView message={selectedMessage} onBack={() => setSelectedMessage(null)} />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4 p-4 bg-slate-50 dark:bg-slate-700/50 rounded-2xl">
+        <label className="flex items-center gap-2 text-sm text-slate-800 dark:text-slate-200 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={policy.keep}
+            onChange={(e) => updatePolicy({ keep: e.target.checked })}
+            className="w-4 h-4 rounded border-slate-300 dark:border-slate-600 text-violet-600 focus:ring-violet-400"
+          />
+          <span>Keep archive</span>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+          <span>Keep for</span>
+          <select
+            value={policy.retention}
+            onChange={(e) => updatePolicy({ retention: e.target.value as ArchiveRetention })}
+            className="px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-violet-400"
+          >
+            {ARCHIVE_RETENTION_OPTIONS.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={handleDelete}
+          disabled={!messages?.length}
+          className="ml-auto flex items-center space-x-1 text-sm text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 disabled:opacity-50"
+        >
+          <Trash2 className="w-4 h-4" />
+          <span>Delete archive</span>
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center space-x-2 py-8 text-slate-500 dark:text-slate-400">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span className="text-sm">Loading archive...</span>
+        </div>
+      ) : error ? (
+        <p className="py-8 text-center text-sm text-red-600 dark:text-red-400">Failed to read the archive</p>
+      ) : !messages?.length ? (
+        <div className="text-center py-8">
+          <Archive className="w-8 h-8 text-slate-400 mx-auto mb-2" />
+          <p className="text-slate-600 dark:text-slate-400">Nothing archived for this inbox</p>
+          <p className="text-xs text-slate-500 dark:text-slate-500 mt-1">Messages are archived when you open them</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-slate-200/50 dark:divide-slate-700/50">
+          {messages.map(message => (
+            <button
+              key={message.id}
+              onClick={() => setSelectedMessage(message)}
+              className="w-full p-4 text-left hover:bg-slate-50 dark:hover:bg-slate-700/50 rounded-xl focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-inset"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 space-y-1">
+                  <p className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate">
+                    {message.from?.name || message.from?.address || 'Unknown sender'}
+                  </p>
+                  <p className="text-sm text-slate-600 dark:text-slate-400 truncate">{message.subject || '(No subject)'}</p>
+                </div>
+                <time className="text-xs text-slate-500 dark:text-slate-500 whitespace-nowrap">
+                  {formatDistanceToNow(new Date(message.createdAt), { addSuffix: true })}
+                </time>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Past inboxes and the mail archived from them, readable after the inbox
+ * has expired and while offline
+ */
+export function ArchiveView({ isOpen, onClose }: ArchiveViewProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { data: summaries } = useArchiveSummaries(isOpen);
+
+  const inboxes = useMemo((): ArchivedInbox[] => {
+    if (!isOpen) return [];
+    const stored = storageService.getStoredAccounts()
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(account => ({ id: account.id, address: account.address, account }));
+    // Storage drops old inbox records sooner than a long retention ends
+    const known = new Set(stored.map(inbox => inbox.id));
+    const archivedOnly = Object.values(summaries ?? {})
+      .filter(summary => !known.has(summary.accountId))
+      .map(summary => ({ id: summary.accountId, address: summary.address ?? summary.accountId, account: null }));
+    return [...stored, ...archivedOnly];
+  }, [isOpen, summaries]);
+  const selectedInbox = inboxes.find(inbox => inbox.id === selectedId) ?? null;
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-3xl w-full max-w-6xl max-h-[90vh] overflow-hidden shadow-2xl border border-slate-200/50 dark:border-slate-700/50">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-200/50 dark:border-slate-700/50">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-gradient-to-r from-violet-500 to-purple-500 rounded-xl text-white">
+              <Archive className="w-5 h-5" />
+            </div>
+            <div>
+              <h3 className="font-display text-xl font-bold text-slate-800 dark:text-slate-200">
+                Archive
+              </h3>
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                Mail your inboxes received, kept on this device after the inbox is gone
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-600 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200 transition-colors"
+            aria-label="Close archive"
+          >
+            <XCircle className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!archiveService.isSupported() ? (
+          <p className="p-6 text-center text-slate-600 dark:text-slate-400">
+            This browser does not support IndexedDB, so mail cannot be archived.
+          </p>
+        ) : (
+          <div className="grid md:grid-cols-[18rem_1fr] max-h-[calc(90vh-100px)]">
+            {/* Past inboxes */}
+            <div className="overflow-y-auto border-r border-slate-200/50 dark:border-slate-700/50 p-3 space-y-1">
+              {inboxes.length === 0 ? (
+                <p className="p-4 text-sm text-slate-600 dark:text-slate-400">No inboxes yet</p>
+              ) : (
+                inboxes.map(inbox => {
+                  const status = getInboxStatus(inbox.account);
+                  const summary = summaries?.[inbox.id];
+                  return (
+                    <button
+                      key={inbox.id}
+                      onClick={() => setSelectedId(inbox.id)}
+                      className={`w-full p-3 text-left rounded-xl transition-colors focus:outline-none focus:ring-2 focus:ring-violet-400 ${
+                        inbox.id === selectedId
+                          ? 'bg-violet-50 dark:bg-violet-900/20'
+                          : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'
+                      }`}
+                    >
+                      <p className="font-mono text-xs text-slate-900 dark:text-slate-100 truncate">{inbox.address}</p>
+                      <div className="flex items-center justify-between mt-1">
+                        <span className="text-xs text-slate-500 dark:text-slate-400">
+                          {summary?.messageCount ?? 0} archived
+                          {inbox.account && ` · ${formatDistanceToNow(inbox.account.createdAt, { addSuffix: true })}`}
+                        </span>
+                        <span className={`px-2 py-0.5 rounded-full text-[10px] font-medium ${status.className}`}>
+                          {status.label}
+                        </span>
+                      </div>
+                    </button>
+                  );
+                })
+              )}
+            </div>
+
+            {/* Archived mail of the selected inbox */}
+            <div className="overflow-y-auto p-6">
+              {selectedInbox ? (
+                <InboxArchive key={selectedInbox.id} inbox={selectedInbox} />
+              ) : (
+                <div className="text-center py-12">
+                  <Archive className="w-8 h-8 text-slate-400 mx-auto mb-2" />
+                  <p className="text-slate-600 dark:text-slate-400">Select an inbox to read its archived mail</p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
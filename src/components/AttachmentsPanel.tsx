@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { Paperclip, Download, Eye, EyeOff, FileText, Image, File, Loader2 } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { AttachmentOwner, fetchAttachment, useAttachment } from '../hooks/useAttachment';
+import { MailAttachment } from '../types/api';
+import { downloadBlob, formatFileSize } from '../utils/fileUtils';
+
+interface AttachmentsPanelProps {
+  attachments: MailAttachment[];
+  /**
+   * Message the attachments belong to; downloads are archived with it
+   */
+  owner?: AttachmentOwner;
+}
+
+type PreviewKind = 'image' | 'pdf' | 'text' | null;
+
+const TEXT_PREVIEW_LIMIT = 100 * 1024; // 100 KB
+
+function getPreviewKind(attachment: MailAttachment): PreviewKind {
+  const type = attachment.contentType.toLowerCase();
+  const name = attachment.filename.toLowerCase();
+
+  if (type.startsWith('image/')) return 'image';
+  if (type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (
+    type.startsWith('text/') ||
+    type === 'application/json' ||
+    type === 'application/xml' ||
+    /\.(csv|txt|json|xml|log|md)$/.test(name)
+  ) {
+    return 'text';
+  }
+  return null;
+}
+
+function AttachmentPreview({ attachment, owner }: { attachment: MailAttachment; owner?: AttachmentOwner }) {
+  const kind = getPreviewKind(attachment);
+  const { data: blob, isLoading, error } = useAttachment(attachment, owner);
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob || kind === 'text') return;
+
+    const url = URL.createObjectURL(blob);
+    setObjectUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [blob, kind]);
+
+  useEffect(() => {
+    if (!blob || kind !== 'text') return;
+
+    let cancelled = false;
+    blob.slice(0, TEXT_PREVIEW_LIMIT).text().then((content) => {
+      if (!cancelled) setText(content);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [blob, kind]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center space-x-2 py-6">
+        <Loader2 className="w-4 h-4 text-violet-600 dark:text-violet-400 animate-spin" />
+        <span className="text-sm text-slate-500 dark:text-slate-400">Loading preview...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <p className="py-4 text-sm text-center text-red-600 dark:text-red-400">
+        Failed to load attachment preview
+      </p>
+    );
+  }
+
+  if (kind === 'image' && objectUrl) {
+    return (
+      <img
+        src={objectUrl}
+        alt={attachment.filename}
+        className="max-h-96 mx-auto rounded-lg border border-slate-200 dark:border-slate-700"
+      />
+    );
+  }
+
+  if (kind === 'pdf' && objectUrl) {
+    return (
+      <iframe
+        src={objectUrl}
+        title={attachment.filename}
+        className="w-full h-96 rounded-lg border border-slate-200 dark:border-slate-700 bg-white"
+      />
+    );
+  }
+
+  if (kind === 'text' && text !== null) {
+    return (
+      <pre className="max-h-96 overflow-auto whitespace-pre-wrap font-mono text-xs text-slate-900 dark:text-slate-100 bg-white dark:bg-slate-800 p-4 rounded-lg border border-slate-200 dark:border-slate-700">
+        {text}
+        {attachment.size > TEXT_PREVIEW_LIMIT && '\n\n… (truncated, download to see the full file)'}
+      </pre>
+    );
+  }
+
+  return null;
+}
+
+export function AttachmentsPanel({ attachments, owner }: AttachmentsPanelProps) {
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  if (attachments.length === 0) return null;
+
+  const handleDownload = async (attachment: MailAttachment) => {
+    setDownloadingId(attachment.id);
+    try {
+      const blob = await queryClient.fetchQuery({
+        queryKey: ['attachment', attachment.downloadUrl],
+        queryFn: () => fetchAttachment(attachment, owner),
+        staleTime: 5 * 60 * 1000,
+      });
+      downloadBlob(blob, attachment.filename);
+    } catch (error) {
+      console.error('❌ Failed to download attachment:', error);
+      toast.error('Failed to download attachment', { icon: '❌' });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const previewAttachment = attachments.find(a => a.id === previewId) || null;
+
+  return (
+    <div className="px-6 py-4 border-b border-slate-200/50 dark:border-slate-700/50 flex-shrink-0">
+      <div className="flex items-center space-x-2 mb-3 text-sm font-medium text-slate-700 dark:text-slate-300">
+        <Paperclip className="w-4 h-4" />
+        <span>Attachments ({attachments.length})</span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {attachments.map((attachment) => {
+          const kind = getPreviewKind(attachment);
+          const Icon = kind === 'image' ? Image : kind ? FileText : File;
+          const isPreviewing = previewId === attachment.id;
+
+          return (
+            <div
+              key={attachment.id}
+              className={`flex items-center space-x-2 pl-3 pr-1 py-1 rounded-xl border text-sm ${
+                isPreviewing
+                  ? 'border-violet-400 bg-violet-50 dark:bg-violet-900/20'
+                  : 'border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-700/30'
+              }`}
+            >
+              <Icon className="w-4 h-4 text-slate-500 dark:text-slate-400 flex-shrink-0" />
+              <span className="max-w-[12rem] truncate text-slate-800 dark:text-slate-200" title={attachment.filename}>
+                {attachment.filename}
+              </span>
+              <span className="text-xs text-slate-500 dark:text-slate-400 whitespace-nowrap">
+                {formatFileSize(attachment.size)}
+              </span>
+              {kind && (
+                <button
+                  onClick={() => setPreviewId(isPreviewing ? null : attachment.id)}
+                  className="p-1 text-slate-600 dark:text-slate-400 hover:text-violet-600 dark:hover:text-violet-400 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700/50 focus:outline-none focus:ring-2 focus:ring-violet-400"
+                  title={isPreviewing ? 'Hide preview' : 'Preview'}
+                  aria-label={isPreviewing ? 'Hide preview' : 'Preview'}
+                >
+                  {isPreviewing ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                </button>
+              )}
+              <button
+                onClick={() => handleDownload(attachment)}
+                disabled={downloadingId === attachment.id}
+                className="p-1 text-slate-600 dark:text-slate-400 hover:text-violet-600 dark:hover:text-violet-400 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700/50 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-violet-400"
+                title="Download"
+                aria-label="Download"
+              >
+                {downloadingId === attachment.id ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Download className="w-4 h-4" />
+                )}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {previewAttachment && (
+        <div className="mt-4 p-3 bg-slate-50 dark:bg-slate-700/30 rounded-xl">
+          <AttachmentPreview key={previewAttachment.id} attachment={previewAttachment} owner={owner} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { Plus, Shuffle, Loader2, X } from 'lucide-react';
+import { Domain } from '../types/api';
+import { CreateInboxOptions } from '../hooks/useInbox';
+import { useSettings } from '../hooks/useSettings';
+import { LIFETIME_OPTIONS, InboxLifetime } from '../utils/lifetime';
+import {
+  DEFAULT_USERNAME_TEMPLATE,
+  expandUsernameTemplate,
+  validateUsername,
+} from '../utils/usernameUtils';
+
+interface CreateInboxPanelProps {
+  domains: Domain[];
+  isCreating: boolean;
+  onCreate: (options?: CreateInboxOptions) => void;
+  onClose: () => void;
+}
+
+type UsernameMode = 'random' | 'custom' | 'template';
+
+export function CreateInboxPanel({ domains, isCreating, onCreate, onClose }: CreateInboxPanelProps) {
+  const [mode, setMode] = useState<UsernameMode>('random');
+  const [domain, setDomain] = useState('');
+  const [username, setUsername] = useState('');
+  const [template, setTemplate] = useState(DEFAULT_USERNAME_TEMPLATE);
+  const { settings, updateSettings } = useSettings();
+
+  const activeDomains = domains.filter(d => d.isActive && !d.isPrivate);
+  const normalizedUsername = username.trim().toLowerCase();
+  const preview = expandUsernameTemplate(template, 1);
+
+  const validationError =
+    mode === 'custom' && normalizedUsername
+      ? validateUsername(normalizedUsername)
+      : mode === 'template'
+      ? (!/\{n\}/.test(template) ? 'Template needs an {n} placeholder to stay unique' : validateUsername(preview))
+      : null;
+
+  const canSubmit =
+    !isCreating &&
+    !validationError &&
+    (mode !== 'custom' || normalizedUsername.length > 0);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canSubmit) return;
+
+    const options: CreateInboxOptions = { lifetime: settings.inboxLifetime };
+    if (domain) options.domain = domain;
+    if (mode === 'custom') options.username = normalizedUsername;
+    if (mode === 'template') options.template = template;
+
+    onCreate(options);
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="mt-4 p-4 bg-slate-50 dark:bg-slate-700/50 rounded-2xl space-y-4"
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-slate-900 dark:text-slate-100">New inbox</h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-violet-400"
+          aria-label="Close new inbox options"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {([
+          { id: 'random', label: 'Random' },
+          { id: 'custom', label: 'Custom username' },
+          { id: 'template', label: 'Template' },
+        ] as const).map(({ id, label }) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => setMode(id)}
+            className={`px-3 py-1.5 text-sm rounded-xl transition-colors focus:outline-none focus:ring-2 focus:ring-violet-400 ${
+              mode === id
+                ? 'bg-violet-600 text-white'
+                : 'bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-3">
+        {mode === 'custom' && (
+          <label className="block text-sm">
+            <span className="text-slate-600 dark:text-slate-400">Username</span>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="signup-test"
+              autoComplete="off"
+              className="mt-1 w-full px-3 py-2 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 font-mono text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-violet-400"
+            />
+          </label>
+        )}
+
+        {mode === 'template' && (
+          <label className="block text-sm">
+            <span className="text-slate-600 dark:text-slate-400">Template ({'{date}'}, {'{time}'}, {'{n}'})</span>
+            <input
+              type="text"
+              value={template}
+              onChange={(e) => setTemplate(e.target.value)}
+              autoComplete="off"
+              className="mt-1 w-full px-3 py-2 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 font-mono text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-violet-400"
+            />
+            <span className="mt-1 block text-xs text-slate-500 dark:text-slate-500 font-mono">
+              e.g. {preview}
+            </span>
+          </label>
+        )}
+
+        <label className="block text-sm">
+          <span className="text-slate-600 dark:text-slate-400">Domain</span>
+          <select
+            value={domain}
+            onChange={(e) => setDomain(e.target.value)}
+            className="mt-1 w-full px-3 py-2 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-violet-400"
+          >
+            <option value="">Random domain</option>
+            {activeDomains.map(d => (
+              <option key={d.id} value={d.domain}>@{d.domain}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block text-sm">
+          <span className="text-slate-600 dark:text-slate-400">Lifetime</span>
+          <select
+            value={settings.inboxLifetime}
+            onChange={(e) => updateSettings({ inboxLifetime: e.target.value as InboxLifetime })}
+            className="mt-1 w-full px-3 py-2 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-violet-400"
+          >
+            {LIFETIME_OPTIONS.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {validationError && (
+        <p className="text-sm text-red-600 dark:text-red-400">{validationError}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={!canSubmit}
+        className="inline-flex items-center space-x-2 px-4 py-2 bg-violet-600 text-white rounded-xl hover:bg-violet-700 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-offset-2"
+      >
+        {isCreating ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : mode === 'random' && !domain ? (
+          <Shuffle className="w-4 h-4" />
+        ) : (
+          <Plus className="w-4 h-4" />
+        )}
+        <span>{isCreating ? 'Creating...' : 'Create inbox'}</span>
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,25 @@
+import { splitHighlights } from '../utils/messageFilter';
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+}
+
+/**
+ * Text with the search terms marked
+ */
+export function HighlightedText({ text, terms }: HighlightedTextProps) {
+  return (
+    <>
+      {splitHighlights(text, terms).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-500/30 text-inherit rounded-sm px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          part.text
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,105 @@
+import { Search, X, Paperclip, MailOpen } from 'lucide-react';
+import { DATE_RANGE_OPTIONS, DateRangeFilter, isFilterActive, MessageFilter } from '../utils/messageFilter';
+
+interface InboxFilterBarProps {
+  filter: MessageFilter;
+  senderDomains: string[];
+  matchCount: number;
+  totalCount: number;
+  onChange: (changes: Partial<MessageFilter>) => void;
+  onReset: () => void;
+}
+
+export function InboxFilterBar({ filter, senderDomains, matchCount, totalCount, onChange, onReset }: InboxFilterBarProps) {
+  const active = isFilterActive(filter);
+  // Keep a saved domain selectable even when none of the loaded messages use it
+  const domains = filter.senderDomain && !senderDomains.includes(filter.senderDomain)
+    ? [filter.senderDomain, ...senderDomains]
+    : senderDomains;
+
+  const toggleClasses = (enabled: boolean) =>
+    `flex items-center space-x-1 px-2.5 py-1.5 text-xs font-medium rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-violet-400 ${
+      enabled
+        ? 'bg-violet-600 text-white hover:bg-violet-700'
+        : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600'
+    }`;
+
+  const selectClasses = 'px-2 py-1.5 text-xs rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 border-none focus:outline-none focus:ring-2 focus:ring-violet-400';
+
+  return (
+    <div className="p-4 border-b border-slate-200/50 dark:border-slate-700/50 space-y-3">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 dark:text-slate-500" />
+        <input
+          type="search"
+          value={filter.query}
+          onChange={(e) => onChange({ query: e.target.value })}
+          placeholder="Search sender, subject or preview"
+          className="w-full pl-9 pr-9 py-2 text-sm bg-slate-50 dark:bg-slate-700/50 text-slate-900 dark:text-slate-100 placeholder-slate-400 dark:placeholder-slate-500 rounded-xl border border-slate-200 dark:border-slate-600 focus:outline-none focus:ring-2 focus:ring-violet-400"
+          aria-label="Search messages"
+        />
+        {filter.query && (
+          <button
+            onClick={() => onChange({ query: '' })}
+            className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-violet-400"
+            aria-label="Clear search"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => onChange({ unreadOnly: !filter.unreadOnly })}
+          className={toggleClasses(filter.unreadOnly)}
+          aria-pressed={filter.unreadOnly}
+        >
+          <MailOpen className="w-3.5 h-3.5" />
+          <span>Unread</span>
+        </button>
+        <button
+          onClick={() => onChange({ hasAttachments: !filter.hasAttachments })}
+          className={toggleClasses(filter.hasAttachments)}
+          aria-pressed={filter.hasAttachments}
+        >
+          <Paperclip className="w-3.5 h-3.5" />
+          <span>Attachments</span>
+        </button>
+        <select
+          value={filter.senderDomain ?? ''}
+          onChange={(e) => onChange({ senderDomain: e.target.value || null })}
+          className={selectClasses}
+          aria-label="Sender domain"
+        >
+          <option value="">All senders</option>
+          {domains.map(domain => (
+            <option key={domain} value={domain}>@{domain}</option>
+          ))}
+        </select>
+        <select
+          value={filter.dateRange}
+          onChange={(e) => onChange({ dateRange: e.target.value as DateRangeFilter })}
+          className={selectClasses}
+          aria-label="Received"
+        >
+          {DATE_RANGE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+
+        {active && (
+          <div className="flex items-center space-x-2 ml-auto text-xs text-slate-500 dark:text-slate-400">
+            <span>{matchCount} of {totalCount}</span>
+            <button
+              onClick={onReset}
+              className="text-violet-600 dark:text-violet-400 hover:underline focus:outline-none focus:ring-2 focus:ring-violet-400 rounded"
+            >
+              Clear filters
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
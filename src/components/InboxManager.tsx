@@ -10,24 +10,55 @@ import {
   Bug,
   Settings,
   Shield,
+  Plus,
+  LogIn,
+  Bell,
+  ChevronDown,
+  ChevronRight,
+  MessagesSquare,
+  Webhook,
+  Archive,
 } from 'lucide-react';
 import { useInbox } from '../hooks/useInbox';
 import { formatDistanceToNow } from 'date-fns';
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { toast } from 'react-hot-toast';
 import { SystemStats } from './SystemStats';
+import { ArchiveView } from './ArchiveView';
+import { CreateInboxPanel } from './CreateInboxPanel';
+import { InboxSwitcher } from './InboxSwitcher';
+import { RestoreInboxPanel } from './RestoreInboxPanel';
+import { NotificationPreferencesPanel } from './NotificationPreferencesPanel';
+import { WebhookSettingsPanel } from './WebhookSettingsPanel';
+import { VerificationChip } from './VerificationChip';
+import { InboxFilterBar } from './InboxFilterBar';
+import { HighlightedText } from './HighlightedText';
+import { useMessageFilter } from '../hooks/useMessageFilter';
+import { useThreads } from '../hooks/useThreads';
+import { useSettings } from '../hooks/useSettings';
+import { MailMessage } from '../types/api';
+import { filterMessages, getSearchTerms, getSenderDomains, isFilterActive } from '../utils/messageFilter';
+import { getBestVerification } from '../utils/verificationExtractor';
 import { authService } from '../services/authService';
+import { getErrorRecovery } from '../services/mailApiErrors';
+import { EXTENSION_OPTIONS, formatTimeLeft, getExpiryStatus } from '../utils/lifetime';
 
 interface InboxManagerProps {
-  onMessageSelect: (messageId: string) => void;
+  onMessageSelect: (messageId: string, thread?: MailMessage[]) => void;
 }
 
 export function InboxManager({ onMessageSelect }: InboxManagerProps) {
   const [showDebug, setShowDebug] = useState(false);
   const [showSystemStats, setShowSystemStats] = useState(false);
+  const [showArchive, setShowArchive] = useState(false);
   const [timer, setTimer] = useState(0);
   const [timerExpired, setTimerExpired] = useState(false);
   const [isScrolling, setIsScrolling] = useState(false);
+  const [showCreatePanel, setShowCreatePanel] = useState(false);
+  const [showRestorePanel, setShowRestorePanel] = useState(false);
+  const [restoreAddress, setRestoreAddress] = useState<string | undefined>();
+  const [showNotificationPanel, setShowNotificationPanel] = useState(false);
+  const [showWebhookPanel, setShowWebhookPanel] = useState(false);
   
   const {
     account,
@@ -39,22 +70,70 @@ export function InboxManager({ onMessageSelect }: InboxManagerProps) {
     isMessagesError,
     messagesError,
     deleteInbox,
+    startNewInbox,
     copyToClipboard,
     refetchMessages,
     deleteMessage,
     isCreating,
     createInbox,
+    createdAt,
     expiresAt,
     domains,
     domainsLoading,
     domainsError,
     domainsErrorMessage,
+    streamStatus,
+    pollingInterval,
+    pollingReason,
+    isLeaderTab,
+    totalMessages,
+    hasMoreMessages,
+    isFetchingMoreMessages,
+    loadMoreMessages,
+    inboxes,
+    switchInbox,
+    restoreInbox,
+    isRestoring,
+    extendInbox,
   } = useInbox();
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Best code or link per message, from its subject and intro
+  const verifications = useMemo(
+    () => new Map(messages.map(message => [message.id, getBestVerification(message)])),
+    [messages]
+  );
+
+  const { filter, updateFilter, resetFilter } = useMessageFilter(account?.id ?? null);
+  const visibleMessages = useMemo(() => filterMessages(messages, filter), [messages, filter]);
+  const senderDomains = useMemo(() => getSenderDomains(messages), [messages]);
+  const searchTerms = getSearchTerms(filter.query);
+
+  const { settings, updateSettings } = useSettings();
+  const [expandedThreads, setExpandedThreads] = useState<Set<string>>(() => new Set());
+  const conversations = useThreads(visibleMessages, settings.groupConversations);
+  const threads = useMemo(
+    () => settings.groupConversations
+      ? conversations
+      : visibleMessages.map(message => ({ id: message.id, subject: message.subject, messages: [message], latest: message, unreadCount: message.seen ? 0 : 1 })),
+    [settings.groupConversations, conversations, visibleMessages]
+  );
+
+  const toggleThread = (threadId: string) => {
+    setExpandedThreads(prev => {
+      const next = new Set(prev);
+      if (next.has(threadId)) next.delete(threadId);
+      else next.add(threadId);
+      return next;
+    });
+  };
+
+  const errorRecovery = getErrorRecovery(messagesError);
 
   // Check if user is admin for settings access
   const isAdmin = authService.isAdmin();
 
-  // Initialize timer based on expiresAt (10 minutes = 600 seconds)
+  // Initialize timer based on expiresAt (inboxes kept until deleted have no timer)
   useEffect(() => {
     if (expiresAt && isAuthenticated && !isExpired) {
       const now = new Date();
@@ -74,10 +153,9 @@ export function InboxManager({ onMessageSelect }: InboxManagerProps) {
     const interval = setInterval(() => {
       setTimer((prev) => {
         const newTimer = prev - 1;
+        // The countdown only displays the lifetime, useInbox closes the inbox once it runs out
         if (newTimer <= 0) {
           setTimerExpired(true);
-          deleteInbox();
-          toast.error('Your inbox has been deleted (timer expired).');
           return 0;
         }
         return newTimer;
@@ -85,7 +163,7 @@ export function InboxManager({ onMessageSelect }: InboxManagerProps) {
     }, 1000);
     
     return () => clearInterval(interval);
-  }, [isAuthenticated, isExpired, isDeleting, timer, timerExpired, deleteInbox]);
+  }, [isAuthenticated, isExpired, isDeleting, timer, timerExpired]);
 
   // Scroll throttling to prevent excessive re-renders
   useEffect(() => {
@@ -109,6 +187,39 @@ export function InboxManager({ onMessageSelect }: InboxManagerProps) {
     }
   }, []);
 
+  // Close the new/restore inbox options once the new address is active
+  useEffect(() => {
+    setShowCreatePanel(false);
+    setShowRestorePanel(false);
+  }, [account?.id]);
+
+  // Close the restore options opened from a rejected sign-in once messages load again
+  useEffect(() => {
+    if (restoreAddress && !isMessagesError) {
+      setShowRestorePanel(false);
+      setRestoreAddress(undefined);
+    }
+  }, [restoreAddress, isMessagesError]);
+
+  // Infinite scroll: load the next page once the sentinel row becomes visible
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMoreMessages) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting && !isFetchingMoreMessages) {
+          console.log('📜 Loading next page of messages');
+          loadMoreMessages();
+        }
+      },
+      { root: document.querySelector('.messages-container'), rootMargin: '100px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMoreMessages, isFetchingMoreMessages, loadMoreMessages, messages.length]);
+
   // Debug logging to track messages data flow
   useEffect(() => {
     console.log('🔍 InboxManager - Component state updated:', {
@@ -268,9 +379,60 @@ export function InboxManager({ onMessageSelect }: InboxManagerProps) {
     );
   }
 
-  // Calculate timer values for 10 minutes (600 seconds)
-  const totalDuration = 600; // 10 minutes in seconds
-  const timerProgress = Math.max(0, (timer / totalDuration) * 100);
+  // Progress and colour scale with the inbox lifetime
+  const expiry = getExpiryStatus(createdAt ?? new Date(), expiresAt);
+  const timerProgress = expiry.progress;
+
+  const renderMessageRow = (message: MailMessage, thread?: MailMessage[]) => (
+    <div
+      key={message.id}
+      className="group flex items-center hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-all duration-200"
+    >
+      <button
+        onClick={() => onMessageSelect(message.id, thread)}
+        className="flex-1 p-4 text-left transition-all duration-200 hover:pl-6 focus:outline-none focus:bg-slate-100 dark:focus:bg-slate-700/70 focus:ring-2 focus:ring-violet-400 focus:ring-inset"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex-1 space-y-1">
+            <p className="text-sm font-medium text-slate-900 dark:text-slate-100">
+              <HighlightedText
+                text={message.from?.name || message.from?.address || 'Unknown sender'}
+                terms={searchTerms}
+              />
+            </p>
+            <p className="text-sm text-slate-600 dark:text-slate-400 line-clamp-2">
+              <HighlightedText text={message.subject || '(No subject)'} terms={searchTerms} />
+            </p>
+            {message.intro && (
+              <p className="text-xs text-slate-500 dark:text-slate-500 line-clamp-2">
+                <HighlightedText text={message.intro} terms={searchTerms} />
+              </p>
+            )}
+          </div>
+          <div className="flex flex-col items-end space-y-1">
+            <time className="text-xs text-slate-500 dark:text-slate-500 whitespace-nowrap">
+              {message.createdAt ? formatDistanceToNow(new Date(message.createdAt), { addSuffix: true }) : 'Unknown time'}
+            </time>
+            {!message.seen && (
+              <div className="w-2 h-2 bg-violet-600 rounded-full"></div>
+            )}
+          </div>
+        </div>
+      </button>
+      {verifications.get(message.id) && (
+        <div className="flex-shrink-0 max-w-[40%] pl-2">
+          <VerificationChip candidate={verifications.get(message.id)!} />
+        </div>
+      )}
+      <button
+        onClick={(e) => handleDeleteMessage(message.id, e)}
+        className="p-2 opacity-0 group-hover:opacity-100 text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 transition-all duration-200 mx-2 rounded-xl hover:bg-red-50 dark:hover:bg-red-900/20 active:scale-95 focus:outline-none focus:ring-2 focus:ring-red-400 focus:ring-offset-2"
+        title="Delete message"
+      >
+        <Trash className="w-4 h-4" />
+      </button>
+    </div>
+  );
 
   return (
     <div className="space-y-6">
@@ -284,17 +446,23 @@ export function InboxManager({ onMessageSelect }: InboxManagerProps) {
             {isAuthenticated && !isExpired && !timerExpired && timer > 0 && (
               <span
                 className={`ml-4 px-3 py-1 rounded-full font-mono text-xs transition-colors duration-500 ${
-                  timer > 300 // 5 minutes
+                  expiry.level === 'ok'
                     ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-200'
-                    : timer > 120 // 2 minutes
+                    : expiry.level === 'warning'
                     ? 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-200'
                     : 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-200'
                 }`}
                 title="Time left before inbox deletion"
               >
-                {`${Math.floor(timer / 60).toString().padStart(2, '0')}:${(timer % 60)
-                  .toString()
-                  .padStart(2, '0')}`} left
+                {formatTimeLeft(timer * 1000)} left
+              </span>
+            )}
+            {isAuthenticated && !expiresAt && (
+              <span
+                className="ml-4 px-3 py-1 rounded-full font-mono text-xs bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300"
+                title="This inbox is kept until you delete it"
+              >
+                No expiry
               </span>
             )}
             {/* Timer progress bar */}
@@ -305,22 +473,98 @@ export function InboxManager({ onMessageSelect }: InboxManagerProps) {
                   style={{
                     width: `${timerProgress}%`,
                     background:
-                      timer > 300 // 5 minutes
+                      expiry.level === 'ok'
                         ? '#4ade80' // green-400
-                        : timer > 120 // 2 minutes
+                        : expiry.level === 'warning'
                         ? '#facc15' // yellow-400
                         : '#f87171', // red-400
                   }}
                 ></div>
               </div>
             )}
+            {/* Extend expiry */}
+            {isAuthenticated && !isExpired && !timerExpired && timer > 0 && (
+              <div className="ml-2 flex items-center space-x-1">
+                {EXTENSION_OPTIONS.map(option => (
+                  <button
+                    key={option.label}
+                    onClick={() => extendInbox(option.durationMs)}
+                    className="px-2 py-0.5 rounded-full text-xs font-medium text-violet-700 dark:text-violet-300 bg-violet-100 dark:bg-violet-900/30 hover:bg-violet-200 dark:hover:bg-violet-900/50 transition-colors focus:outline-none focus:ring-2 focus:ring-violet-400"
+                    title={`Extend inbox lifetime (${option.label})`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            )}
             {timerExpired && (
               <span className="ml-4 px-3 py-1 rounded-full bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-200 font-mono text-xs">
-                Inbox deleted (timer expired)
+                Inbox expired
               </span>
             )}
           </div>
           <div className="flex items-center space-x-2">
+            <button
+              onClick={() => {
+                setShowRestorePanel(!showRestorePanel);
+                setRestoreAddress(undefined);
+                setShowCreatePanel(false);
+                setShowNotificationPanel(false);
+                setShowWebhookPanel(false);
+              }}
+              className="p-2 text-slate-600 dark:text-slate-400 hover:text-violet-600 dark:hover:text-violet-400 transition-all duration-200 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-700/50 focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-offset-2"
+              title="Restore inbox"
+              aria-label="Restore inbox"
+            >
+              <LogIn className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => {
+                setShowCreatePanel(!showCreatePanel);
+                setShowRestorePanel(false);
+                setShowNotificationPanel(false);
+                setShowWebhookPanel(false);
+              }}
+              className="p-2 text-slate-600 dark:text-slate-400 hover:text-violet-600 dark:hover:text-violet-400 transition-all duration-200 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-700/50 focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-offset-2"
+              title="New inbox"
+              aria-label="New inbox"
+            >
+              <Plus className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => {
+                setShowNotificationPanel(!showNotificationPanel);
+                setShowCreatePanel(false);
+                setShowRestorePanel(false);
+                setShowWebhookPanel(false);
+              }}
+              className="p-2 text-slate-600 dark:text-slate-400 hover:text-violet-600 dark:hover:text-violet-400 transition-all duration-200 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-700/50 focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-offset-2"
+              title="Notification preferences"
+              aria-label="Notification preferences"
+            >
+              <Bell className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => {
+                setShowWebhookPanel(!showWebhookPanel);
+                setShowCreatePanel(false);
+                setShowRestorePanel(false);
+                setShowNotificationPanel(false);
+              }}
+              className="p-2 text-slate-600 dark:text-slate-400 hover:text-violet-600 dark:hover:text-violet-400 transition-all duration-200 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-700/50 focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-offset-2"
+              title="Webhook forwarding"
+              aria-label="Webhook forwarding"
+            >
+              <Webhook className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setShowArchive(true)}
+              className="p-2 text-slate-600 dark:text-slate-400 hover:text-violet-600 dark:hover:text-violet-400 transition-all duration-200 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-700/50 focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-offset-2"
+              title="Archive"
+              aria-label="Archive"
+            >
+              <Archive className="w-5 h-5" />
+            </button>
             <button
               onClick={() => setShowDebug(!showDebug)}
               className="p-2 text-slate-600 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 transition-all duration-200 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-700/50 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-offset-2"
@@ -361,6 +605,12 @@ export function InboxManager({ onMessageSelect }: InboxManagerProps) {
           </div>
         </div>
 
+        <InboxSwitcher
+          inboxes={inboxes}
+          onSwitch={switchInbox}
+          onDelete={deleteInbox}
+        />
+
         {/* Email Address */}
         <div className="flex items-center space-x-3 p-4 bg-slate-50 dark:bg-slate-700/50 rounded-2xl">
           <div className="flex-1 font-mono text-sm text-slate-900 dark:text-slate-100 select-all">
@@ -375,6 +625,37 @@ export function InboxManager({ onMessageSelect }: InboxManagerProps) {
           </button>
         </div>
 
+        {showCreatePanel && (
+          <CreateInboxPanel
+            domains={domains}
+            isCreating={isCreating}
+            onCreate={createInbox}
+            onClose={() => setShowCreatePanel(false)}
+          />
+        )}
+
+        {showRestorePanel && (
+          <RestoreInboxPanel
+            key={restoreAddress}
+            openAccountIds={inboxes.map(inbox => inbox.account.id)}
+            initialAddress={restoreAddress}
+            isRestoring={isRestoring}
+            onRestore={restoreInbox}
+            onClose={() => {
+              setShowRestorePanel(false);
+              setRestoreAddress(undefined);
+            }}
+          />
+        )}
+
+        {showNotificationPanel && (
+          <NotificationPreferencesPanel onClose={() => setShowNotificationPanel(false)} />
+        )}
+
+        {showWebhookPanel && (
+          <WebhookSettingsPanel account={account} onClose={() => setShowWebhookPanel(false)} />
+        )}
+
         {isExpired && (
           <div className="mt-4 p-4 bg-red-50 dark:bg-red-900/20 rounded-2xl">
             <p className="text-sm text-red-600 dark:text-red-400">
@@ -389,15 +670,20 @@ export function InboxManager({ onMessageSelect }: InboxManagerProps) {
             <div className="font-mono text-blue-800 dark:text-blue-200 space-y-1">
               <div className="font-bold text-sm mb-2">🐛 Debug Information</div>
               <div>• Messages Array Length: {messages?.length || 0}</div>
+              <div>• Total Messages: {totalMessages} {hasMoreMessages ? '(more pages)' : ''}</div>
               <div>• Messages Type: {Array.isArray(messages) ? 'Array' : typeof messages}</div>
               <div>• Loading State: {messagesLoading ? 'Loading' : 'Not Loading'}</div>
+              <div>• Live Stream: {streamStatus}</div>
+              <div>• Tab Role: {isLeaderTab ? 'Leader' : 'Follower'}</div>
+              <div>• Polling: {pollingInterval ? `every ${pollingInterval / 1000}s` : 'paused'} ({streamStatus === 'open' ? 'live stream' : pollingReason})</div>
               <div>• Error State: {isMessagesError ? 'Has Error' : 'No Error'}</div>
               <div>• Error Message: {messagesError?.message || 'None'}</div>
               <div>• Authenticated: {isAuthenticated ? 'Yes' : 'No'}</div>
               <div>• Account ID: {account?.id || 'None'}</div>
               <div>• Account Address: {account?.address || 'None'}</div>
+              <div>• Open Inboxes: {inboxes.length}</div>
               <div>• Timer: {timer}s ({Math.floor(timer / 60)}m {timer % 60}s)</div>
-              <div>• Expires At: {expiresAt?.toLocaleString() || 'None'}</div>
+              <div>• Expires At: {expiresAt?.toLocaleString() || 'Never'}</div>
               <div>• Domains Count: {domains?.length || 0}</div>
               <div>• Active Domains: {domains?.filter(d => d.isActive && !d.isPrivate).length || 0}</div>
               <div>• Is Admin: {isAdmin ? 'Yes' : 'No'}</div>
@@ -423,24 +709,52 @@ export function InboxManager({ onMessageSelect }: InboxManagerProps) {
         <div className="p-6 border-b border-slate-200/50 dark:border-slate-700/50">
           <div className="flex items-center justify-between">
             <h3 className="text-lg font-display font-medium text-slate-900 dark:text-slate-100">
-              Messages {messages.length > 0 && `(${messages.length})`}
+              Messages {totalMessages > 0 && (
+                totalMessages > messages.length ? `(${messages.length} of ${totalMessages})` : `(${totalMessages})`
+              )}
             </h3>
-            {isMessagesError && (
-              <div className="flex items-center space-x-2 text-red-600 dark:text-red-400">
-                <AlertCircle className="w-4 h-4" />
-                <span className="text-sm">Error loading messages</span>
-                <button
-                  onClick={handleRefresh}
-                  className="p-1 hover:bg-red-50 dark:hover:bg-red-900/20 rounded focus:outline-none focus:ring-2 focus:ring-red-400"
-                  title="Retry"
-                >
-                  <RefreshCw className="w-4 h-4" />
-                </button>
-              </div>
-            )}
+            <div className="flex items-center space-x-3">
+              {isMessagesError && (
+                <div className="flex items-center space-x-2 text-red-600 dark:text-red-400">
+                  <AlertCircle className="w-4 h-4" />
+                  <span className="text-sm">{errorRecovery.title}</span>
+                  <button
+                    onClick={handleRefresh}
+                    className="p-1 hover:bg-red-50 dark:hover:bg-red-900/20 rounded focus:outline-none focus:ring-2 focus:ring-red-400"
+                    title="Retry"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+              <button
+                onClick={() => updateSettings({ groupConversations: !settings.groupConversations })}
+                className={`p-2 rounded-xl transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-violet-400 ${
+                  settings.groupConversations
+                    ? 'text-violet-600 dark:text-violet-400 bg-violet-50 dark:bg-violet-900/30'
+                    : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700/50'
+                }`}
+                title={settings.groupConversations ? 'Show messages individually' : 'Group into conversations'}
+                aria-label="Group into conversations"
+                aria-pressed={settings.groupConversations}
+              >
+                <MessagesSquare className="w-4 h-4" />
+              </button>
+            </div>
           </div>
         </div>
 
+        {(messages.length > 0 || isFilterActive(filter)) && (
+          <InboxFilterBar
+            filter={filter}
+            senderDomains={senderDomains}
+            matchCount={visibleMessages.length}
+            totalCount={messages.length}
+            onChange={updateFilter}
+            onReset={resetFilter}
+          />
+        )}
+
         <div className="messages-container max-h-96 overflow-y-auto scroll-smooth">
           {messagesLoading ? (
             <div className="p-6">
@@ -453,16 +767,51 @@ export function InboxManager({ onMessageSelect }: InboxManagerProps) {
             <div className="p-6">
               <div className="flex flex-col items-center justify-center space-y-3">
                 <AlertCircle className="w-8 h-8 text-red-500 dark:text-red-400" />
-                <p className="text-red-600 dark:text-red-400 font-medium">Failed to load messages</p>
+                <p className="text-red-600 dark:text-red-400 font-medium">{errorRecovery.title}</p>
                 <p className="text-sm text-slate-500 dark:text-slate-500 text-center">
-                  {messagesError?.message || 'Unknown error occurred'}
+                  {errorRecovery.hint}
                 </p>
-                <button
-                  onClick={handleRefresh}
-                  className="px-4 py-2 bg-violet-600 text-white rounded-xl hover:bg-violet-700 transition-colors focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-offset-2"
-                >
-                  Try Again
-                </button>
+                {errorRecovery.action === 'restore' ? (
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => {
+                        setRestoreAddress(account?.address);
+                        setShowRestorePanel(true);
+                        setShowCreatePanel(false);
+                        setShowNotificationPanel(false);
+                        setShowWebhookPanel(false);
+                      }}
+                      className="px-4 py-2 bg-violet-600 text-white rounded-xl hover:bg-violet-700 transition-colors focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-offset-2"
+                    >
+                      Restore with Password
+                    </button>
+                    <button
+                      onClick={startNewInbox}
+                      className="px-4 py-2 text-violet-700 dark:text-violet-300 bg-violet-100 dark:bg-violet-900/30 rounded-xl hover:bg-violet-200 dark:hover:bg-violet-900/50 transition-colors focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-offset-2"
+                    >
+                      Create New Inbox
+                    </button>
+                  </div>
+                ) : errorRecovery.action === 'new-inbox' ? (
+                  <button
+                    onClick={startNewInbox}
+                    className="px-4 py-2 bg-violet-600 text-white rounded-xl hover:bg-violet-700 transition-colors focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-offset-2"
+                  >
+                    Create New Inbox
+                  </button>
+                ) : errorRecovery.action === 'wait' ? (
+                  <div className="flex items-center space-x-2 text-sm text-slate-500 dark:text-slate-500">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    <span>Waiting to retry...</span>
+                  </div>
+                ) : (
+                  <button
+                    onClick={handleRefresh}
+                    className="px-4 py-2 bg-violet-600 text-white rounded-xl hover:bg-violet-700 transition-colors focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-offset-2"
+                  >
+                    Try Again
+                  </button>
+                )}
               </div>
             </div>
           ) : !Array.isArray(messages) ? (
@@ -491,53 +840,116 @@ export function InboxManager({ onMessageSelect }: InboxManagerProps) {
                 Send an email to your temporary address - it will appear here instantly
               </p>
             </div>
+          ) : visibleMessages.length === 0 ? (
+            <div className="p-6">
+              <div className="flex flex-col items-center justify-center space-y-3">
+                <p className="text-slate-600 dark:text-slate-400">No messages match your filters</p>
+                {hasMoreMessages && (
+                  <p className="text-sm text-slate-500 dark:text-slate-500 text-center">
+                    Only loaded messages are searched. Clear the filters and scroll down to load older ones.
+                  </p>
+                )}
+                <button
+                  onClick={resetFilter}
+                  className="px-4 py-2 bg-violet-600 text-white rounded-xl hover:bg-violet-700 transition-colors focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-offset-2"
+                >
+                  Clear filters
+                </button>
+              </div>
+            </div>
           ) : (
             <div className="divide-y divide-slate-200/50 dark:divide-slate-700/50">
-              {messages.map((message, index) => {
-                console.log(`🎯 Rendering message ${index + 1}:`, message);
+              {threads.map((thread, index) => {
+                console.log(`🎯 Rendering thread ${index + 1}:`, thread);
+                if (thread.messages.length === 1) {
+                  return renderMessageRow(thread.latest);
+                }
+
+                const isExpanded = expandedThreads.has(thread.id);
+                const latest = thread.latest;
+                const verification = verifications.get(latest.id);
                 return (
-                  <div
-                    key={message.id || `message-${index}`}
-                    className="group flex items-center hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-all duration-200"
-                  >
-                    <button
-                      onClick={() => onMessageSelect(message.id)}
-                      className="flex-1 p-4 text-left transition-all duration-200 hover:pl-6 focus:outline-none focus:bg-slate-100 dark:focus:bg-slate-700/70 focus:ring-2 focus:ring-violet-400 focus:ring-inset"
-                    >
-                      <div className="flex items-start justify-between gap-4">
-                        <div className="flex-1 space-y-1">
-                          <p className="text-sm font-medium text-slate-900 dark:text-slate-100">
-                            {message.from?.name || message.from?.address || 'Unknown sender'}
-                          </p>
-                          <p className="text-sm text-slate-600 dark:text-slate-400 line-clamp-2">
-                            {message.subject || '(No subject)'}
-                          </p>
-                          {message.intro && (
-                            <p className="text-xs text-slate-500 dark:text-slate-500 line-clamp-2">
-                              {message.intro}
+                  <div key={thread.id}>
+                    <div className="group flex items-center hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-all duration-200">
+                      <button
+                        onClick={() => toggleThread(thread.id)}
+                        className="p-2 ml-2 text-slate-500 dark:text-slate-400 hover:text-violet-600 dark:hover:text-violet-400 rounded-xl focus:outline-none focus:ring-2 focus:ring-violet-400"
+                        title={isExpanded ? 'Collapse conversation' : 'Expand conversation'}
+                        aria-expanded={isExpanded}
+                        aria-label={isExpanded ? 'Collapse conversation' : 'Expand conversation'}
+                      >
+                        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      </button>
+                      <button
+                        onClick={() => onMessageSelect(latest.id, thread.messages)}
+                        className="flex-1 p-4 pl-2 text-left transition-all duration-200 focus:outline-none focus:bg-slate-100 dark:focus:bg-slate-700/70 focus:ring-2 focus:ring-violet-400 focus:ring-inset"
+                      >
+                        <div className="flex items-start justify-between gap-4">
+                          <div className="flex-1 space-y-1">
+                            <p className="flex items-center gap-2 text-sm font-medium text-slate-900 dark:text-slate-100">
+                              <span>
+                                <HighlightedText
+                                  text={latest.from?.name || latest.from?.address || 'Unknown sender'}
+                                  terms={searchTerms}
+                                />
+                              </span>
+                              <span className="px-1.5 py-0.5 text-xs font-semibold rounded-full bg-slate-200 dark:bg-slate-600 text-slate-700 dark:text-slate-200">
+                                {thread.messages.length}
+                              </span>
                             </p>
-                          )}
+                            <p className="text-sm text-slate-600 dark:text-slate-400 line-clamp-2">
+                              <HighlightedText text={latest.subject || '(No subject)'} terms={searchTerms} />
+                            </p>
+                            {latest.intro && (
+                              <p className="text-xs text-slate-500 dark:text-slate-500 line-clamp-2">
+                                <HighlightedText text={latest.intro} terms={searchTerms} />
+                              </p>
+                            )}
+                          </div>
+                          <div className="flex flex-col items-end space-y-1">
+                            <time className="text-xs text-slate-500 dark:text-slate-500 whitespace-nowrap">
+                              {formatDistanceToNow(new Date(latest.createdAt), { addSuffix: true })}
+                            </time>
+                            {thread.unreadCount > 0 && (
+                              <span className="px-1.5 text-xs font-medium rounded-full bg-violet-600 text-white">
+                                {thread.unreadCount}
+                              </span>
+                            )}
+                          </div>
                         </div>
-                        <div className="flex flex-col items-end space-y-1">
-                          <time className="text-xs text-slate-500 dark:text-slate-500 whitespace-nowrap">
-                            {message.createdAt ? formatDistanceToNow(new Date(message.createdAt), { addSuffix: true }) : 'Unknown time'}
-                          </time>
-                          {!message.seen && (
-                            <div className="w-2 h-2 bg-violet-600 rounded-full"></div>
-                          )}
+                      </button>
+                      {verification && (
+                        <div className="flex-shrink-0 max-w-[40%] pl-2 pr-4">
+                          <VerificationChip candidate={verification} />
                         </div>
+                      )}
+                    </div>
+                    {isExpanded && (
+                      <div className="pl-8 bg-slate-50/50 dark:bg-slate-900/20 divide-y divide-slate-200/50 dark:divide-slate-700/50">
+                        {[...thread.messages].reverse().map(message => renderMessageRow(message, thread.messages))}
                       </div>
-                    </button>
-                    <button
-                      onClick={(e) => handleDeleteMessage(message.id, e)}
-                      className="p-2 opacity-0 group-hover:opacity-100 text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 transition-all duration-200 mx-2 rounded-xl hover:bg-red-50 dark:hover:bg-red-900/20 active:scale-95 focus:outline-none focus:ring-2 focus:ring-red-400 focus:ring-offset-2"
-                      title="Delete message"
-                    >
-                      <Trash className="w-4 h-4" />
-                    </button>
+                    )}
                   </div>
                 );
               })}
+              {/* Sentinel that pulls in the next page when scrolled into view */}
+              {hasMoreMessages && (
+                <div ref={loadMoreRef} className="p-4 flex items-center justify-center space-x-2">
+                  {isFetchingMoreMessages ? (
+                    <>
+                      <Loader2 className="w-4 h-4 text-violet-600 dark:text-violet-400 animate-spin" />
+                      <span className="text-sm text-slate-500 dark:text-slate-500">Loading more messages...</span>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => loadMoreMessages()}
+                      className="text-sm text-violet-600 dark:text-violet-400 hover:underline focus:outline-none focus:ring-2 focus:ring-violet-400 rounded"
+                    >
+                      Load more
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -550,6 +962,8 @@ export function InboxManager({ onMessageSelect }: InboxManagerProps) {
           onClose={() => setShowSystemStats(false)} 
         />
       )}
+
+      <ArchiveView isOpen={showArchive} onClose={() => setShowArchive(false)} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { Mail, X } from 'lucide-react';
+import { InboxSummary } from '../hooks/useInbox';
+import { formatTimeLeft } from '../utils/lifetime';
+
+interface InboxSwitcherProps {
+  inboxes: InboxSummary[];
+  onSwitch: (accountId: string) => void;
+  onDelete: (accountId: string) => void;
+}
+
+export function InboxSwitcher({ inboxes, onSwitch, onDelete }: InboxSwitcherProps) {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second for the expiry timers
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (inboxes.length < 2) return null;
+
+  return (
+    <div className="mb-4 flex flex-wrap gap-2" role="tablist" aria-label="Open inboxes">
+      {inboxes.map(({ account, expiresAt, unreadCount, isActive }) => (
+        <div
+          key={account.id}
+          className={`group flex items-center rounded-xl border transition-colors ${
+            isActive
+              ? 'bg-violet-600 border-violet-600 text-white'
+              : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+          }`}
+        >
+          <button
+            role="tab"
+            aria-selected={isActive}
+            onClick={() => onSwitch(account.id)}
+            className="flex items-center space-x-2 pl-3 pr-1 py-1.5 text-sm rounded-l-xl focus:outline-none focus:ring-2 focus:ring-violet-400"
+            title={account.address}
+          >
+            <Mail className="w-4 h-4 flex-shrink-0" />
+            <span className="font-mono max-w-[10rem] truncate">{account.address.split('@')[0]}</span>
+            {unreadCount > 0 && (
+              <span
+                className={`px-1.5 min-w-[1.25rem] text-center rounded-full text-xs font-medium ${
+                  isActive ? 'bg-white text-violet-700' : 'bg-violet-600 text-white'
+                }`}
+                title={`${unreadCount} unread`}
+              >
+                {unreadCount}
+              </span>
+            )}
+            {expiresAt && (
+              <span className={`font-mono text-xs ${isActive ? 'text-violet-100' : 'text-slate-500 dark:text-slate-400'}`}>
+                {formatTimeLeft(expiresAt.getTime() - now)}
+              </span>
+            )}
+          </button>
+          <button
+            onClick={() => onDelete(account.id)}
+            className={`p-1.5 mr-1 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-400 ${
+              isActive ? 'hover:bg-violet-700' : 'hover:text-red-600 dark:hover:text-red-400'
+            }`}
+            title="Delete inbox"
+            aria-label={`Delete ${account.address}`}
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,21 +1,39 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { X, Mail, Clock, User, ArrowLeft, Copy } from 'lucide-react';
-import { useMessage } from '../hooks/useMessage';
+import { useMessage, useMessageSource } from '../hooks/useMessage';
 import { formatDistanceToNow } from '../utils/dateUtils';
 import toast from 'react-hot-toast';
 import DOMPurify from 'dompurify';
+import { AttachmentsPanel } from './AttachmentsPanel';
+import { RawSourceView } from './RawSourceView';
+import { VerificationChip } from './VerificationChip';
+import { ThreadView } from './ThreadView';
+import { MailMessage } from '../types/api';
+import { getBestVerification } from '../utils/verificationExtractor';
 
 interface MessageViewerProps {
   messageId: string | null;
   onClose: () => void;
   embedded?: boolean;
+  /**
+   * The conversation the message belongs to, oldest first
+   */
+  thread?: MailMessage[];
 }
 
-type ViewMode = 'html' | 'text' | 'raw';
+type ViewMode = 'thread' | 'html' | 'text' | 'raw';
 
-export function MessageViewer({ messageId, onClose, embedded = false }: MessageViewerProps) {
-  const [viewMode, setViewMode] = useState<ViewMode>('html');
+export function MessageViewer({ messageId, onClose, embedded = false, thread }: MessageViewerProps) {
+  const hasThread = !!thread && thread.length > 1;
+  const viewModes: ViewMode[] = hasThread ? ['thread', 'html', 'text', 'raw'] : ['html', 'text', 'raw'];
+  const [viewMode, setViewMode] = useState<ViewMode>(hasThread ? 'thread' : 'html');
   const { data: message, isLoading, error } = useMessage(messageId);
+  const {
+    data: source,
+    isLoading: sourceLoading,
+    error: sourceError,
+  } = useMessageSource(messageId, viewMode === 'raw');
+  const verification = useMemo(() => (message ? getBestVerification(message) : null), [message]);
 
   // Copy handler for message content
   const handleCopy = async () => {
@@ -28,8 +46,8 @@ export function MessageViewer({ messageId, onClose, embedded = false }: MessageV
       content = tempDiv.innerText;
     } else if (viewMode === 'text' && message.text) {
       content = message.text;
-    } else if (viewMode === 'raw') {
-      content = JSON.stringify(message, null, 2);
+    } else if (viewMode === 'raw' && source) {
+      content = source.data;
     }
     if (content) {
       try {
@@ -155,6 +173,15 @@ export function MessageViewer({ messageId, onClose, embedded = false }: MessageV
             </div>
           ) : message ? (
             <div className="flex-1 flex flex-col overflow-hidden">
+              {verification && (
+                <div className="flex items-center gap-3 px-6 py-3 border-b border-slate-200/50 dark:border-slate-700/50 bg-emerald-50 dark:bg-emerald-900/10 flex-shrink-0">
+                  <span className="text-sm text-slate-600 dark:text-slate-400">
+                    {verification.kind === 'code' ? 'One-time code' : 'Verification link'}
+                  </span>
+                  <VerificationChip candidate={verification} size="md" />
+                </div>
+              )}
+
               {/* Message Info */}
               <div className="p-6 border-b border-slate-200/50 dark:border-slate-700/50 bg-slate-50 dark:bg-slate-700/30 flex-shrink-0">
                 <div className="space-y-3">
@@ -192,19 +219,24 @@ export function MessageViewer({ messageId, onClose, embedded = false }: MessageV
                 </div>
               </div>
 
+              <AttachmentsPanel
+                attachments={message.attachments ?? []}
+                owner={{ accountId: message.accountId, messageId: message.id }}
+              />
+
               {/* View Mode Tabs */}
               <div className="flex border-b border-slate-200/50 dark:border-slate-700/50 flex-shrink-0">
-                {['html', 'text', 'raw'].map((mode) => (
+                {viewModes.map((mode) => (
                   <button
                     key={mode}
-                    onClick={() => setViewMode(mode as ViewMode)}
+                    onClick={() => setViewMode(mode)}
                     className={`px-4 py-2 font-medium transition-all border-b-2 focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-inset ${
                       viewMode === mode 
                         ? 'border-violet-600 text-violet-600 dark:text-violet-400' 
                         : 'border-transparent text-slate-500 dark:text-slate-400 hover:text-violet-600 dark:hover:text-violet-400'
                     }`}
                   >
-                    {mode.toUpperCase()}
+                    {mode === 'thread' ? `THREAD (${thread!.length})` : mode.toUpperCase()}
                   </button>
                 ))}
               </div>
@@ -212,8 +244,10 @@ export function MessageViewer({ messageId, onClose, embedded = false }: MessageV
               {/* Message Content - Scrollable */}
               <div className="flex-1 overflow-auto p-6" style={{ maxHeight: '60vh' }}>
                 <div className="min-h-[200px]">
-                  {/* HTML mode with improved rendering and sanitization */}
-                  {viewMode === 'html' && message.html && message.html.length > 0 ? (
+                  {/* Thread, then HTML mode with improved rendering and sanitization */}
+                  {viewMode === 'thread' && hasThread ? (
+                    <ThreadView messages={thread!} selectedId={message.id} />
+                  ) : viewMode === 'html' && message.html && message.html.length > 0 ? (
                     (() => {
                       const htmlContent = sanitizeHTML(message.html.join(''));
                       if (!htmlContent.trim()) {
@@ -261,15 +295,13 @@ export function MessageViewer({ messageId, onClose, embedded = false }: MessageV
                       {message.text}
                     </pre>
                   ) : viewMode === 'raw' ? (
-                    <pre 
-                      className="whitespace-pre-wrap text-slate-600 dark:text-slate-400 font-mono text-xs break-words overflow-x-hidden bg-slate-50 dark:bg-slate-700/30 p-4 rounded-lg"
-                      style={{
-                        wordBreak: 'break-all',
-                        overflowWrap: 'anywhere',
-                      }}
-                    >
-                      {JSON.stringify(message, null, 2)}
-                    </pre>
+                    <RawSourceView
+                      source={source}
+                      isLoading={sourceLoading}
+                      error={sourceError}
+                      subject={message.subject}
+                      messageId={message.id}
+                    />
                   ) : (
                     <div className="text-center py-8">
                       <p className="text-slate-600 dark:text-slate-400">
@@ -352,6 +384,15 @@ export function MessageViewer({ messageId, onClose, embedded = false }: MessageV
             </div>
           ) : message ? (
             <div className="flex-1 flex flex-col overflow-hidden">
+              {verification && (
+                <div className="flex items-center gap-3 px-6 py-3 border-b border-slate-200/50 dark:border-slate-700/50 bg-emerald-50 dark:bg-emerald-900/10 flex-shrink-0">
+                  <span className="text-sm text-slate-600 dark:text-slate-400">
+                    {verification.kind === 'code' ? 'One-time code' : 'Verification link'}
+                  </span>
+                  <VerificationChip candidate={verification} size="md" />
+                </div>
+              )}
+
               {/* Message Info */}
               <div className="p-6 border-b border-slate-200/50 dark:border-slate-700/50 bg-slate-50 dark:bg-slate-700/30 flex-shrink-0">
                 <div className="space-y-3">
@@ -389,19 +430,24 @@ export function MessageViewer({ messageId, onClose, embedded = false }: MessageV
                 </div>
               </div>
 
+              <AttachmentsPanel
+                attachments={message.attachments ?? []}
+                owner={{ accountId: message.accountId, messageId: message.id }}
+              />
+
               {/* View Mode Tabs */}
               <div className="flex border-b border-slate-200/50 dark:border-slate-700/50 flex-shrink-0">
-                {['html', 'text', 'raw'].map((mode) => (
+                {viewModes.map((mode) => (
                   <button
                     key={mode}
-                    onClick={() => setViewMode(mode as ViewMode)}
+                    onClick={() => setViewMode(mode)}
                     className={`px-4 py-2 font-medium transition-all border-b-2 focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-inset ${
                       viewMode === mode 
                         ? 'border-violet-600 text-violet-600 dark:text-violet-400' 
                         : 'border-transparent text-slate-500 dark:text-slate-400 hover:text-violet-600 dark:hover:text-violet-400'
                     }`}
                   >
-                    {mode.toUpperCase()}
+                    {mode === 'thread' ? `THREAD (${thread!.length})` : mode.toUpperCase()}
                   </button>
                 ))}
               </div>
@@ -410,8 +456,10 @@ export function MessageViewer({ messageId, onClose, embedded = false }: MessageV
               {/* The following div ensures vertical scrolling for long emails. */}
               <div className="flex-1 overflow-auto p-6" style={{ maxHeight: '50vh' }}>
                 <div className="min-h-[200px]">
-                  {/* HTML mode with improved rendering and sanitization */}
-                  {viewMode === 'html' && message.html && message.html.length > 0 ? (
+                  {/* Thread, then HTML mode with improved rendering and sanitization */}
+                  {viewMode === 'thread' && hasThread ? (
+                    <ThreadView messages={thread!} selectedId={message.id} />
+                  ) : viewMode === 'html' && message.html && message.html.length > 0 ? (
                     (() => {
                       const htmlContent = sanitizeHTML(message.html.join(''));
                       if (!htmlContent.trim()) {
@@ -459,15 +507,13 @@ export function MessageViewer({ messageId, onClose, embedded = false }: MessageV
                       {message.text}
                     </pre>
                   ) : viewMode === 'raw' ? (
-                    <pre 
-                      className="whitespace-pre-wrap text-slate-600 dark:text-slate-400 font-mono text-xs break-words overflow-x-hidden bg-slate-50 dark:bg-slate-700/30 p-4 rounded-lg"
-                      style={{
-                        wordBreak: 'break-all',
-                        overflowWrap: 'anywhere',
-                      }}
-                    >
-                      {JSON.stringify(message, null, 2)}
-                    </pre>
+                    <RawSourceView
+                      source={source}
+                      isLoading={sourceLoading}
+                      error={sourceError}
+                      subject={message.subject}
+                      messageId={message.id}
+                    />
                   ) : (
                     <div className="text-center py-8">
                       <p className="text-slate-600 dark:text-slate-400">
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { Bell, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useSettings } from '../hooks/useSettings';
+import { AppSettings } from '../services/settingsService';
+import { notificationService, NotificationPermissionState } from '../services/notificationService';
+
+interface NotificationPreferencesPanelProps {
+  onClose: () => void;
+}
+
+type ToggleKey = 'desktopNotifications' | 'notificationSound' | 'titleBadge' | 'faviconBadge' | 'autoCopyVerification';
+
+const TOGGLES: { key: ToggleKey; label: string; description: string }[] = [
+  { key: 'desktopNotifications', label: 'Desktop notifications', description: 'Show sender and subject when new mail arrives' },
+  { key: 'notificationSound', label: 'Sound', description: 'Play a short chime for new mail' },
+  { key: 'titleBadge', label: 'Title badge', description: 'Show the unread count in the tab title' },
+  { key: 'faviconBadge', label: 'Favicon badge', description: 'Draw the unread count on the tab icon' },
+  { key: 'autoCopyVerification', label: 'Copy codes automatically', description: 'Copy the one-time code or verification link from new mail' },
+];
+
+const PERMISSION_LABELS: Record<NotificationPermissionState, string> = {
+  granted: 'Allowed',
+  denied: 'Blocked in browser settings',
+  default: 'Not requested yet',
+  unsupported: 'Not supported in this browser',
+};
+
+export function NotificationPreferencesPanel({ onClose }: NotificationPreferencesPanelProps) {
+  const { settings, updateSettings } = useSettings();
+  const [permission, setPermission] = useState(() => notificationService.getPermission());
+
+  const handleToggle = async (key: ToggleKey, enabled: boolean) => {
+    const changes: Partial<AppSettings> = { [key]: enabled };
+
+    // Still inside the click, the only moment the browser lets audio start
+    if (key === 'notificationSound' && enabled) {
+      notificationService.unlockAudio();
+    }
+
+    if (key === 'desktopNotifications' && enabled) {
+      const result = await notificationService.requestPermission();
+      setPermission(result);
+      if (result !== 'granted') {
+        toast.error(result === 'unsupported'
+          ? 'Desktop notifications are not supported in this browser'
+          : 'Notification permission was not granted');
+        return;
+      }
+    }
+
+    updateSettings(changes);
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-slate-50 dark:bg-slate-700/50 rounded-2xl space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-slate-900 dark:text-slate-100">Notifications</h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-violet-400"
+          aria-label="Close notification preferences"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {TOGGLES.map(toggle => (
+          <label key={toggle.key} className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings[toggle.key]}
+              disabled={toggle.key === 'desktopNotifications' && permission === 'unsupported'}
+              onChange={(e) => handleToggle(toggle.key, e.target.checked)}
+              className="mt-0.5 w-4 h-4 rounded border-slate-300 dark:border-slate-600 text-violet-600 focus:ring-violet-400 disabled:opacity-50"
+            />
+            <span>
+              <span className="block text-sm text-slate-900 dark:text-slate-100">{toggle.label}</span>
+              <span className="block text-xs text-slate-500 dark:text-slate-400">
+                {toggle.description}
+                {toggle.key === 'desktopNotifications' && ` · ${PERMISSION_LABELS[permission]}`}
+              </span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => notificationService.sendTestNotification()}
+        className="flex items-center space-x-2 px-3 py-1.5 text-xs font-medium rounded-lg bg-violet-100 dark:bg-violet-900/30 text-violet-700 dark:text-violet-200 hover:bg-violet-200 dark:hover:bg-violet-900/50 focus:outline-none focus:ring-2 focus:ring-violet-400"
+      >
+        <Bell className="w-3.5 h-3.5" />
+        <span>Send test notification</span>
+      </button>
+    </div>
+  );
+}
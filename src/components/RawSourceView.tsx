@@ -0,0 +1,95 @@
+import { useMemo } from 'react';
+import { Download, Loader2, AlertCircle } from 'lucide-react';
+import { MessageSource } from '../types/api';
+import { classifySourceLines, getEmlFilename } from '../utils/mimeUtils';
+import { downloadBlob } from '../utils/fileUtils';
+
+interface RawSourceViewProps {
+  source: MessageSource | undefined;
+  isLoading: boolean;
+  error: Error | null;
+  subject: string;
+  messageId: string;
+}
+
+export function RawSourceView({ source, isLoading, error, subject, messageId }: RawSourceViewProps) {
+  const lines = useMemo(() => (source ? classifySourceLines(source.data) : []), [source]);
+
+  const handleDownload = () => {
+    if (!source) return;
+    const blob = new Blob([source.data], { type: 'message/rfc822' });
+    downloadBlob(blob, getEmlFilename(subject, messageId));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center space-x-2 py-8">
+        <Loader2 className="w-5 h-5 text-violet-600 dark:text-violet-400 animate-spin" />
+        <p className="text-slate-600 dark:text-slate-400">Loading message source...</p>
+      </div>
+    );
+  }
+
+  if (error || !source) {
+    return (
+      <div className="flex flex-col items-center justify-center space-y-2 py-8">
+        <AlertCircle className="w-6 h-6 text-red-500 dark:text-red-400" />
+        <p className="text-red-600 dark:text-red-400 font-medium">Failed to load message source</p>
+        {error && <p className="text-sm text-slate-500 dark:text-slate-500">{error.message}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <button
+          onClick={handleDownload}
+          className="inline-flex items-center space-x-2 px-3 py-1.5 text-sm bg-violet-600 text-white rounded-xl hover:bg-violet-700 transition-colors focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-offset-2"
+        >
+          <Download className="w-4 h-4" />
+          <span>Download .eml</span>
+        </button>
+      </div>
+      <pre
+        className="whitespace-pre-wrap font-mono text-xs break-words overflow-x-hidden bg-slate-50 dark:bg-slate-700/30 p-4 rounded-lg"
+        style={{
+          wordBreak: 'break-all',
+          overflowWrap: 'anywhere',
+        }}
+      >
+        {lines.map((line, index) => {
+          switch (line.kind) {
+            case 'header':
+              return (
+                <div key={index}>
+                  <span className="text-violet-700 dark:text-violet-300 font-semibold">{line.name}:</span>
+                  <span className="text-slate-800 dark:text-slate-200">{line.value}</span>
+                </div>
+              );
+            case 'header-continuation':
+              return (
+                <div key={index} className="text-slate-800 dark:text-slate-200">
+                  {line.text}
+                </div>
+              );
+            case 'boundary':
+              return (
+                <div key={index} className="text-amber-600 dark:text-amber-400 font-semibold">
+                  {line.text}
+                </div>
+              );
+            case 'blank':
+              return <div key={index}>{' '}</div>;
+            default:
+              return (
+                <div key={index} className="text-slate-600 dark:text-slate-400">
+                  {line.text}
+                </div>
+              );
+          }
+        })}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useMemo, useState } from 'react';
+import { LogIn, Loader2, X, History } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { RestoreInboxOptions } from '../hooks/useInbox';
+import { storageService } from '../services/storageService';
+import { isExpired } from '../utils/lifetime';
+
+interface RestoreInboxPanelProps {
+  openAccountIds: string[];
+  /**
+   * Address to prefill, e.g. an open inbox whose sign-in was rejected
+   */
+  initialAddress?: string;
+  isRestoring: boolean;
+  onRestore: (options: RestoreInboxOptions) => void;
+  onClose: () => void;
+}
+
+export function RestoreInboxPanel({ openAccountIds, initialAddress, isRestoring, onRestore, onClose }: RestoreInboxPanelProps) {
+  const [address, setAddress] = useState(initialAddress ?? '');
+  const [password, setPassword] = useState('');
+
+  // Stored inboxes that are still alive and not already open
+  const recentAccounts = useMemo(() => {
+    return storageService.getStoredAccounts()
+      .filter(account => !account.deleted && !isExpired(account.expiresAt) && !openAccountIds.includes(account.id))
+      .sort((a, b) => b.lastAccessedAt.getTime() - a.lastAccessedAt.getTime());
+  }, [openAccountIds]);
+
+  const canSubmit = !isRestoring && address.includes('@') && password.length > 0;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canSubmit) return;
+    onRestore({ address, password });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="mt-4 p-4 bg-slate-50 dark:bg-slate-700/50 rounded-2xl space-y-4"
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-slate-900 dark:text-slate-100">Restore inbox</h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-violet-400"
+          aria-label="Close restore inbox"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {recentAccounts.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2 text-xs text-slate-500 dark:text-slate-400">
+            <History className="w-3.5 h-3.5" />
+            <span>Recent inboxes</span>
+          </div>
+          <div className="max-h-40 overflow-y-auto divide-y divide-slate-200/50 dark:divide-slate-600/50 rounded-xl bg-white dark:bg-slate-800">
+            {recentAccounts.map(account => (
+              <button
+                key={account.id}
+                type="button"
+                disabled={isRestoring}
+                onClick={() => onRestore({ address: account.address, password: account.password })}
+                className="w-full flex items-center justify-between gap-3 px-3 py-2 text-left text-sm hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-inset"
+              >
+                <span className="font-mono truncate text-slate-900 dark:text-slate-100">{account.address}</span>
+                <span className="text-xs whitespace-nowrap text-slate-500 dark:text-slate-400">
+                  {account.expiresAt
+                    ? `expires ${formatDistanceToNow(account.expiresAt, { addSuffix: true })}`
+                    : 'never expires'}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid sm:grid-cols-2 gap-3">
+        <label className="block text-sm">
+          <span className="text-slate-600 dark:text-slate-400">Address</span>
+          <input
+            type="email"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            placeholder="name@domain.com"
+            autoComplete="username"
+            className="mt-1 w-full px-3 py-2 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 font-mono text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-violet-400"
+          />
+        </label>
+        <label className="block text-sm">
+          <span className="text-slate-600 dark:text-slate-400">Password</span>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            className="mt-1 w-full px-3 py-2 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 font-mono text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-violet-400"
+          />
+        </label>
+      </div>
+
+      <button
+        type="submit"
+        disabled={!canSubmit}
+        className="inline-flex items-center space-x-2 px-4 py-2 bg-violet-600 text-white rounded-xl hover:bg-violet-700 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-offset-2"
+      >
+        {isRestoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogIn className="w-4 h-4" />}
+        <span>{isRestoring ? 'Signing in...' : 'Restore inbox'}</span>
+      </button>
+    </form>
+  );
+}
@@ -9,10 +9,14 @@ import {
   XCircle,
   RotateCcw,
   Settings,
-  Info
+  Info,
+  TimerReset,
+  Webhook
 } from 'lucide-react';
 import { cleanupService } from '../services/cleanupService';
 import { storageService, CleanupStats, AuditLogEntry } from '../services/storageService';
+import { requestScheduler, SchedulerStats } from '../services/requestScheduler';
+import { webhookService, WebhookDelivery } from '../services/webhookService';
 import { formatDistanceToNow } from 'date-fns';
 import toast from 'react-hot-toast';
 
@@ -26,7 +30,9 @@ export function SystemStats({ isOpen, onClose }: SystemStatsProps) {
   const [cleanupStatus, setCleanupStatus] = useState<any>(null);
   const [recentAuditEntries, setRecentAuditEntries] = useState<AuditLogEntry[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [activeTab, setActiveTab] = useState<'overview' | 'audit' | 'settings'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'audit' | 'webhooks' | 'settings'>('overview');
+  const [schedulerStats, setSchedulerStats] = useState<SchedulerStats>(() => requestScheduler.getStats());
+  const [webhookDeliveries, setWebhookDeliveries] = useState<WebhookDelivery[]>([]);
 
   useEffect(() => {
     if (isOpen) {
@@ -37,6 +43,19 @@ export function SystemStats({ isOpen, onClose }: SystemStatsProps) {
     }
   }, [isOpen]);
 
+  // Queue depth changes quickly, so sample it more often than the storage stats
+  useEffect(() => {
+    if (!isOpen) return;
+    const interval = setInterval(() => setSchedulerStats(requestScheduler.getStats()), 1000);
+    return () => clearInterval(interval);
+  }, [isOpen]);
+
+  // Deliveries change as retries run, so follow them live
+  useEffect(() => {
+    if (!isOpen) return;
+    return webhookService.subscribe(setWebhookDeliveries);
+  }, [isOpen]);
+
   const refreshData = async () => {
     setIsRefreshing(true);
     try {
@@ -47,6 +66,7 @@ export function SystemStats({ isOpen, onClose }: SystemStatsProps) {
       setStats(currentStats);
       setCleanupStatus(currentStatus);
       setRecentAuditEntries(auditLog.slice(0, 20)); // Show last 20 entries
+      setWebhookDeliveries(webhookService.getDeliveries());
     } catch (error) {
       console.error('Failed to refresh stats:', error);
       toast.error('Failed to refresh statistics');
@@ -98,6 +118,8 @@ export function SystemStats({ isOpen, onClose }: SystemStatsProps) {
         return <CheckCircle className="w-4 h-4 text-green-500" />;
       case 'ACCESSED':
         return <Activity className="w-4 h-4 text-blue-500" />;
+      case 'EXTENDED':
+        return <TimerReset className="w-4 h-4 text-violet-500" />;
       case 'EXPIRED':
         return <Clock className="w-4 h-4 text-yellow-500" />;
       case 'DELETED':
@@ -154,6 +176,7 @@ export function SystemStats({ isOpen, onClose }: SystemStatsProps) {
           {[
             { id: 'overview', label: 'Overview', icon: Activity },
             { id: 'audit', label: 'Audit Log', icon: Database },
+            { id: 'webhooks', label: 'Webhooks', icon: Webhook },
             { id: 'settings', label: 'Settings', icon: Settings },
           ].map(({ id, label, icon: Icon }) => (
             <button
@@ -204,13 +227,13 @@ export function SystemStats({ isOpen, onClose }: SystemStatsProps) {
                       </span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-slate-600 dark:text-slate-400">Warning (30-60 min):</span>
+                      <span className="text-slate-600 dark:text-slate-400">Warning (&lt;50% of lifetime left):</span>
                       <span className="font-medium text-yellow-600 dark:text-yellow-400">
                         {cleanupStatus?.warningAccountsCount || 0}
                       </span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-slate-600 dark:text-slate-400">Critical (&lt;30 min):</span>
+                      <span className="text-slate-600 dark:text-slate-400">Critical (&lt;20% of lifetime left):</span>
                       <span className="font-medium text-red-600 dark:text-red-400">
                         {cleanupStatus?.criticalAccountsCount || 0}
                       </span>
@@ -242,6 +265,52 @@ export function SystemStats({ isOpen, onClose }: SystemStatsProps) {
                   </div>
                 </div>
 
+                {/* Request Queue */}
+                <div className="bg-slate-50 dark:bg-slate-700/50 rounded-2xl p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h4 className="font-display text-lg font-bold text-slate-800 dark:text-slate-200">
+                      API Request Queue
+                    </h4>
+                    <div className={`px-3 py-1 rounded-full text-xs font-medium ${
+                      schedulerStats.pausedUntil
+                        ? 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-200'
+                        : 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-200'
+                    }`}>
+                      {schedulerStats.pausedUntil ? 'Rate Limited' : 'Flowing'}
+                    </div>
+                  </div>
+                  <div className="space-y-3">
+                    <div className="flex justify-between">
+                      <span className="text-slate-600 dark:text-slate-400">In Flight:</span>
+                      <span className="font-medium">{schedulerStats.active}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-600 dark:text-slate-400">Queued (interactive):</span>
+                      <span className="font-medium">{schedulerStats.interactiveQueued}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-600 dark:text-slate-400">Queued (background):</span>
+                      <span className="font-medium">{schedulerStats.backgroundQueued}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-600 dark:text-slate-400">Completed:</span>
+                      <span className="font-medium">{schedulerStats.completed}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-600 dark:text-slate-400">429 Responses:</span>
+                      <span className="font-medium text-red-600 dark:text-red-400">{schedulerStats.rateLimited}</span>
+                    </div>
+                    {schedulerStats.pausedUntil && (
+                      <div className="flex justify-between">
+                        <span className="text-slate-600 dark:text-slate-400">Resumes:</span>
+                        <span className="font-medium text-sm">
+                          {formatDistanceToNow(schedulerStats.pausedUntil, { addSuffix: true })}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+
                 {/* Statistics */}
                 <div className="bg-slate-50 dark:bg-slate-700/50 rounded-2xl p-6">
                   <h4 className="font-display text-lg font-bold text-slate-800 dark:text-slate-200 mb-4">
@@ -335,6 +404,79 @@ export function SystemStats({ isOpen, onClose }: SystemStatsProps) {
             </div>
           )}
 
+          {activeTab === 'webhooks' && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h4 className="font-display text-lg font-bold text-slate-800 dark:text-slate-200">
+                  Webhook Deliveries
+                </h4>
+                <div className="flex items-center space-x-3">
+                  <span className="text-sm text-slate-600 dark:text-slate-400">
+                    {webhookDeliveries.filter(d => d.status === 'delivered').length} delivered,{' '}
+                    {webhookDeliveries.filter(d => d.status === 'failed').length} failed
+                  </span>
+                  {webhookDeliveries.length > 0 && (
+                    <button
+                      onClick={() => webhookService.clearDeliveries()}
+                      className="text-sm text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300"
+                    >
+                      Clear log
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {webhookDeliveries.length === 0 ? (
+                  <div className="text-center py-8">
+                    <Webhook className="w-8 h-8 text-slate-400 mx-auto mb-2" />
+                    <p className="text-slate-600 dark:text-slate-400">No webhook deliveries yet</p>
+                  </div>
+                ) : (
+                  webhookDeliveries.map((delivery) => (
+                    <div
+                      key={delivery.id}
+                      className="flex items-start space-x-3 p-4 bg-slate-50 dark:bg-slate-700/50 rounded-xl"
+                    >
+                      <div className="mt-0.5">
+                        {delivery.status === 'delivered' && <CheckCircle className="w-4 h-4 text-green-500" />}
+                        {delivery.status === 'pending' && <RotateCcw className="w-4 h-4 text-orange-500 animate-spin" />}
+                        {delivery.status === 'failed' && <XCircle className="w-4 h-4 text-red-600" />}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between">
+                          <p className="text-sm font-medium text-slate-800 dark:text-slate-200 truncate">
+                            {delivery.test ? 'TEST ' : ''}{delivery.subject || '(No subject)'}
+                          </p>
+                          <time className="text-xs text-slate-500 dark:text-slate-500 whitespace-nowrap ml-2">
+                            {formatDistanceToNow(delivery.createdAt, { addSuffix: true })}
+                          </time>
+                        </div>
+                        <p className="text-sm text-slate-600 dark:text-slate-400 truncate font-mono">
+                          POST {delivery.url}
+                        </p>
+                        <p className="text-xs text-slate-500 dark:text-slate-500 mt-1">
+                          {delivery.address} · {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                          {delivery.responseStatus !== null && ` · HTTP ${delivery.responseStatus}`}
+                          {delivery.error && delivery.status !== 'delivered' && ` · ${delivery.error}`}
+                          {delivery.nextAttemptAt && ` · next attempt ${formatDistanceToNow(delivery.nextAttemptAt, { addSuffix: true })}`}
+                        </p>
+                      </div>
+                      {delivery.status === 'failed' && (
+                        <button
+                          onClick={() => webhookService.retryDelivery(delivery.id)}
+                          className="text-sm text-violet-600 dark:text-violet-400 hover:text-violet-700 dark:hover:text-violet-300"
+                        >
+                          Retry
+                        </button>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+
           {activeTab === 'settings' && (
             <div className="space-y-6">
               <div className="bg-slate-50 dark:bg-slate-700/50 rounded-2xl p-6">
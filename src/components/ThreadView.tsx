@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+import { useMessage } from '../hooks/useMessage';
+import { formatDistanceToNow } from '../utils/dateUtils';
+import { MailMessage } from '../types/api';
+
+interface ThreadViewProps {
+  /**
+   * Messages of the conversation, oldest first
+   */
+  messages: MailMessage[];
+  selectedId: string;
+}
+
+function ThreadMessageBody({ messageId }: { messageId: string }) {
+  const { data: message, isLoading, error } = useMessage(messageId);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-slate-500 dark:text-slate-400">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <span>Loading message...</span>
+      </div>
+    );
+  }
+
+  if (error || !message) {
+    return <p className="text-sm text-red-600 dark:text-red-400">Failed to load message</p>;
+  }
+
+  return (
+    <pre className="whitespace-pre-wrap font-sans text-sm break-words text-slate-800 dark:text-slate-200">
+      {message.text || message.intro || '(No text content)'}
+    </pre>
+  );
+}
+
+/**
+ * Messages of a conversation stacked oldest first. Cards open on click and
+ * load their text; the message the thread was opened from starts open.
+ */
+export function ThreadView({ messages, selectedId }: ThreadViewProps) {
+  const [openIds, setOpenIds] = useState<Set<string>>(() => new Set([selectedId]));
+
+  const toggle = (messageId: string) => {
+    setOpenIds(prev => {
+      const next = new Set(prev);
+      if (next.has(messageId)) next.delete(messageId);
+      else next.add(messageId);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {messages.map(message => {
+        const isOpen = openIds.has(message.id);
+        return (
+          <div
+            key={message.id}
+            className={`rounded-2xl border transition-colors ${
+              message.id === selectedId
+                ? 'border-violet-300 dark:border-violet-700'
+                : 'border-slate-200/70 dark:border-slate-700/70'
+            }`}
+          >
+            <button
+              onClick={() => toggle(message.id)}
+              className="w-full flex items-start gap-3 p-4 text-left rounded-2xl hover:bg-slate-50 dark:hover:bg-slate-700/40 focus:outline-none focus:ring-2 focus:ring-violet-400 focus:ring-inset"
+              aria-expanded={isOpen}
+            >
+              {isOpen ? (
+                <ChevronDown className="w-4 h-4 mt-0.5 flex-shrink-0 text-slate-400" />
+              ) : (
+                <ChevronRight className="w-4 h-4 mt-0.5 flex-shrink-0 text-slate-400" />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate">
+                    {message.from?.name || message.from?.address || 'Unknown sender'}
+                  </span>
+                  <span className="flex items-center space-x-2 flex-shrink-0">
+                    {!message.seen && <span className="w-2 h-2 bg-violet-600 rounded-full" />}
+                    <time className="text-xs text-slate-500 dark:text-slate-400 whitespace-nowrap">
+                      {formatDistanceToNow(new Date(message.createdAt))}
+                    </time>
+                  </span>
+                </div>
+                {!isOpen && message.intro && (
+                  <p className="text-xs text-slate-500 dark:text-slate-400 truncate mt-1">{message.intro}</p>
+                )}
+              </div>
+            </button>
+            {isOpen && (
+              <div className="px-4 pb-4 pl-11">
+                <ThreadMessageBody messageId={message.id} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
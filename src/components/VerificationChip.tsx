@@ -0,0 +1,60 @@
+import { KeyRound, Link2, ExternalLink } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { VerificationCandidate } from '../utils/verificationExtractor';
+import { writeClipboard } from '../utils/clipboard';
+
+interface VerificationChipProps {
+  candidate: VerificationCandidate;
+  size?: 'sm' | 'md';
+}
+
+/**
+ * One-click copy of a one-time code or verification link found in a message
+ */
+export function VerificationChip({ candidate, size = 'sm' }: VerificationChipProps) {
+  const isCode = candidate.kind === 'code';
+  const Icon = isCode ? KeyRound : Link2;
+
+  const handleCopy = async (event: React.MouseEvent) => {
+    event.stopPropagation();
+    try {
+      await writeClipboard(candidate.value);
+      toast.success(isCode ? `Code ${candidate.value} copied` : 'Verification link copied', { icon: '📋', duration: 2000 });
+    } catch (error) {
+      console.error('❌ Failed to copy verification:', error);
+      toast.error('Failed to copy to clipboard', { icon: '❌' });
+    }
+  };
+
+  const sizeClasses = size === 'md' ? 'px-3 py-1.5 text-sm' : 'px-2 py-1 text-xs';
+
+  return (
+    <span className="inline-flex items-center gap-1 max-w-full">
+      <button
+        type="button"
+        onClick={handleCopy}
+        className={`inline-flex items-center gap-1.5 max-w-full rounded-full bg-emerald-100 dark:bg-emerald-900/30 text-emerald-800 dark:text-emerald-200 hover:bg-emerald-200 dark:hover:bg-emerald-900/50 active:scale-95 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-emerald-400 ${sizeClasses}`}
+        title={isCode ? 'Copy code' : `Copy link: ${candidate.value}`}
+        aria-label={isCode ? `Copy code ${candidate.value}` : 'Copy verification link'}
+      >
+        <Icon className="w-3.5 h-3.5 flex-shrink-0" />
+        <span className={isCode ? 'font-mono font-semibold tracking-wider' : 'truncate'}>
+          {isCode ? candidate.value : 'Verification link'}
+        </span>
+      </button>
+      {!isCode && (
+        <a
+          href={candidate.value}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={(event) => event.stopPropagation()}
+          className="p-1 text-emerald-700 dark:text-emerald-300 hover:text-emerald-900 dark:hover:text-emerald-100 rounded-full focus:outline-none focus:ring-2 focus:ring-emerald-400"
+          title="Open link"
+          aria-label="Open verification link"
+        >
+          <ExternalLink className="w-3.5 h-3.5" />
+        </a>
+      )}
+    </span>
+  );
+}
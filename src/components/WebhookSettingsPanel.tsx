@@ -0,0 +1,147 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { KeyRound, Send, Webhook, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { webhookService, WebhookConfig, WEBHOOK_SIGNATURE_HEADER } from '../services/webhookService';
+import { MailAccount } from '../types/api';
+
+interface WebhookSettingsPanelProps {
+  account: MailAccount;
+  onClose: () => void;
+}
+
+const EMPTY_CONFIG: WebhookConfig = { enabled: false, url: '', secret: '' };
+
+function getUrlError(url: string): string | null {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:' ? null : 'Use an http or https URL';
+  } catch {
+    return 'Enter a full URL, e.g. http://localhost:3000/hooks/mail';
+  }
+}
+
+/**
+ * Webhook that new mail of the active inbox is forwarded to
+ */
+export function WebhookSettingsPanel({ account, onClose }: WebhookSettingsPanelProps) {
+  const [config, setConfig] = useState<WebhookConfig>(() => webhookService.getConfig(account.id) ?? EMPTY_CONFIG);
+
+  // Each inbox has its own webhook
+  useEffect(() => {
+    setConfig(webhookService.getConfig(account.id) ?? EMPTY_CONFIG);
+  }, [account.id]);
+
+  const urlError = config.url ? getUrlError(config.url) : null;
+
+  const handleSave = (event: FormEvent) => {
+    event.preventDefault();
+    if (config.enabled && (!config.url || urlError)) {
+      toast.error(urlError ?? 'Enter a webhook URL first');
+      return;
+    }
+    webhookService.saveConfig(account.id, { ...config, url: config.url.trim() });
+    toast.success(config.enabled ? 'Webhook saved, new mail will be forwarded' : 'Webhook saved (disabled)');
+  };
+
+  const handleTest = () => {
+    if (!config.url || urlError) {
+      toast.error(urlError ?? 'Enter a webhook URL first');
+      return;
+    }
+    webhookService.sendTest({ id: account.id, address: account.address }, { ...config, url: config.url.trim() });
+    toast.success('Test delivery sent');
+  };
+
+  return (
+    <form onSubmit={handleSave} className="mt-4 p-4 bg-slate-50 dark:bg-slate-700/50 rounded-2xl space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-slate-900 dark:text-slate-100">Webhook for {account.address}</h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-violet-400"
+          aria-label="Close webhook settings"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <label className="flex items-start gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          onChange={(e) => setConfig({ ...config, enabled: e.target.checked })}
+          className="mt-0.5 w-4 h-4 rounded border-slate-300 dark:border-slate-600 text-violet-600 focus:ring-violet-400"
+        />
+        <span>
+          <span className="block text-sm text-slate-900 dark:text-slate-100">Forward new mail</span>
+          <span className="block text-xs text-slate-500 dark:text-slate-400">
+            POST each new message as JSON, with its one-time code and verification link
+          </span>
+        </span>
+      </label>
+
+      <div>
+        <label htmlFor="webhook-url" className="block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1">
+          URL
+        </label>
+        <input
+          id="webhook-url"
+          type="url"
+          value={config.url}
+          onChange={(e) => setConfig({ ...config, url: e.target.value })}
+          placeholder="http://localhost:3000/hooks/mail"
+          className="w-full px-3 py-2 text-sm font-mono rounded-xl border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-violet-400"
+        />
+        {urlError && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{urlError}</p>}
+      </div>
+
+      <div>
+        <label htmlFor="webhook-secret" className="block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1">
+          Signing secret
+        </label>
+        <div className="flex items-center gap-2">
+          <input
+            id="webhook-secret"
+            type="text"
+            value={config.secret}
+            onChange={(e) => setConfig({ ...config, secret: e.target.value })}
+            placeholder="Leave empty to send unsigned"
+            className="flex-1 px-3 py-2 text-sm font-mono rounded-xl border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-violet-400"
+          />
+          <button
+            type="button"
+            onClick={() => setConfig({ ...config, secret: webhookService.generateSecret() })}
+            className="p-2 text-slate-600 dark:text-slate-400 hover:text-violet-600 dark:hover:text-violet-400 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-700/50 focus:outline-none focus:ring-2 focus:ring-violet-400"
+            title="Generate secret"
+            aria-label="Generate secret"
+          >
+            <KeyRound className="w-4 h-4" />
+          </button>
+        </div>
+        <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+          Signed as <code>{WEBHOOK_SIGNATURE_HEADER}: sha256=HMAC(secret, timestamp + "." + body)</code>.
+          The receiver must allow cross-origin POSTs from this page.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          type="submit"
+          className="flex items-center space-x-2 px-3 py-1.5 text-xs font-medium rounded-lg bg-violet-600 text-white hover:bg-violet-700 focus:outline-none focus:ring-2 focus:ring-violet-400"
+        >
+          <Webhook className="w-3.5 h-3.5" />
+          <span>Save</span>
+        </button>
+        <button
+          type="button"
+          onClick={handleTest}
+          className="flex items-center space-x-2 px-3 py-1.5 text-xs font-medium rounded-lg bg-violet-100 dark:bg-violet-900/30 text-violet-700 dark:text-violet-200 hover:bg-violet-200 dark:hover:bg-violet-900/50 focus:outline-none focus:ring-2 focus:ring-violet-400"
+        >
+          <Send className="w-3.5 h-3.5" />
+          <span>Send test delivery</span>
+        </button>
+      </div>
+    </form>
+  );
+}
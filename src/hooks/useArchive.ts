@@ -0,0 +1,36 @@
+import { useQuery } from '@tanstack/react-query';
+import { archiveService } from '../services/archiveService';
+
+/**
+ * Archived message and attachment counts per inbox. Expired records are
+ * pruned first so the counts match what can still be read.
+ */
+export function useArchiveSummaries(enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['archive-summaries'],
+    queryFn: async () => {
+      await archiveService.pruneExpired();
+      return archiveService.getSummaries();
+    },
+    enabled: enabled && archiveService.isSupported(),
+    staleTime: 0,
+  });
+}
+
+export function useArchivedMessages(accountId: string | null) {
+  return useQuery({
+    queryKey: ['archive-messages', accountId],
+    queryFn: () => archiveService.getMessages(accountId!),
+    enabled: !!accountId && archiveService.isSupported(),
+    staleTime: 0,
+  });
+}
+
+export function useArchivedAttachmentIds(messageId: string | null) {
+  return useQuery({
+    queryKey: ['archive-attachments', messageId],
+    queryFn: () => archiveService.getArchivedAttachmentIds(messageId!),
+    enabled: !!messageId && archiveService.isSupported(),
+    staleTime: 0,
+  });
+}
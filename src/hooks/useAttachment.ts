@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { getMailProvider } from '../services/mailProvider';
+import { archiveService } from '../services/archiveService';
+import { MailAttachment } from '../types/api';
+
+/**
+ * Message an attachment belongs to, so a downloaded copy can be archived with it
+ */
+export interface AttachmentOwner {
+  accountId: string;
+  messageId: string;
+}
+
+export async function fetchAttachment(attachment: MailAttachment, owner?: AttachmentOwner): Promise<Blob> {
+  const blob = await getMailProvider().getAttachment(attachment.downloadUrl);
+  if (owner) {
+    archiveService.archiveAttachment(owner.accountId, owner.messageId, attachment, blob);
+  }
+  return blob;
+}
+
+export function useAttachment(attachment: MailAttachment | null, owner?: AttachmentOwner) {
+  return useQuery({
+    queryKey: ['attachment', attachment?.downloadUrl],
+    queryFn: () => fetchAttachment(attachment!, owner),
+    enabled: !!attachment,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
@@ -1,69 +1,255 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { mailApi } from '../services/mailApi';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useQuery, useQueries, useInfiniteQuery, useMutation, useQueryClient, InfiniteData } from '@tanstack/react-query';
+import { getMailProvider, MailProvider } from '../services/mailProvider';
 import { storageService } from '../services/storageService';
 import { cleanupService } from '../services/cleanupService';
-import { MailAccount, MailMessage } from '../types/api';
+import { MailApiError, AccountGoneError, RateLimitedError, UnauthorizedError, ValidationError } from '../services/mailApiErrors';
+import { formatDuration, getLifetimeOption, isExpired } from '../utils/lifetime';
+import { settingsService } from '../services/settingsService';
+import { useMessageStream } from './useMessageStream';
+import { usePageActivity } from './usePageActivity';
+import { useTabSync } from './useTabSync';
+import { useSettings } from './useSettings';
+import { clearMessageFilter } from './useMessageFilter';
+import { getPollingPlan, HIDDEN_INTERVAL_MS, PollingPlan } from '../utils/pollingStrategy';
+import { writeClipboard } from '../utils/clipboard';
+import { getBestVerification, isConfidentVerification } from '../utils/verificationExtractor';
+import { applyFirstPage, markMessageSeen, removeCachedMessage } from '../utils/messageCache';
+import { tabSyncService } from '../services/tabSync';
+import { notificationService } from '../services/notificationService';
+import { webhookService } from '../services/webhookService';
+import { archiveService } from '../services/archiveService';
+import { MailAccount, MailMessage, PaginatedCollection } from '../types/api';
+import { OpenInbox } from '../types/inbox';
+import { tempBox } from '../services/tempBox';
+import type { CreateInboxOptions, RestoreInboxOptions } from '../sdk';
 import toast from 'react-hot-toast';
 
-interface InboxState {
-  account: MailAccount | null;
-  password: string;
-  isAuthenticated: boolean;
+export type { CreateInboxOptions, RestoreInboxOptions } from '../sdk';
+
+export const MAX_ACTIVE_INBOXES = 5;
+const SUMMARY_POLL_INTERVAL = 30000;
+
+interface InboxSetState {
+  inboxes: Record<string, OpenInbox>;
+  activeId: string | null;
+}
+
+export interface InboxSummary {
+  account: MailAccount;
+  createdAt: Date;
   expiresAt: Date | null;
-  token: string | null;
+  unreadCount: number;
+  isActive: boolean;
 }
 
-export function useInbox() {
-  const [inboxState, setInboxState] = useState<InboxState>(() => {
-    // Try to restore from localStorage
-    const saved = localStorage.getItem('inbox-state');
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        if (parsed.account && parsed.isAuthenticated && parsed.token) {
-          mailApi.setToken(parsed.token);
-          return {
-            ...parsed,
-            expiresAt: parsed.expiresAt ? new Date(parsed.expiresAt) : null,
-            token: parsed.token,
-          };
-        }
-      } catch (error) {
-        console.error('Failed to parse saved inbox state:', error);
-        localStorage.removeItem('inbox-state');
-      }
+/**
+ * Restore the open inboxes from localStorage, upgrading the older
+ * single-inbox format
+ */
+function loadInboxSet(): InboxSetState {
+  const saved = localStorage.getItem('inbox-state');
+  if (!saved) return { inboxes: {}, activeId: null };
+
+  try {
+    const parsed = JSON.parse(saved);
+    const entries = parsed.inboxes
+      ? Object.values(parsed.inboxes)
+      : parsed.account && parsed.isAuthenticated ? [parsed] : [];
+
+    const inboxes: Record<string, OpenInbox> = {};
+    for (const entry of entries as Array<OpenInbox & { createdAt?: string; expiresAt: string | null }>) {
+      if (!entry.account || !entry.token) continue;
+      const expiresAt = entry.expiresAt ? new Date(entry.expiresAt) : null;
+      // Inboxes saved before lifetimes were configurable always lasted 10 minutes
+      const createdAt = entry.createdAt
+        ? new Date(entry.createdAt)
+        : expiresAt ? new Date(expiresAt.getTime() - 10 * 60 * 1000) : new Date();
+      inboxes[entry.account.id] = {
+        account: entry.account,
+        password: entry.password,
+        token: entry.token,
+        createdAt,
+        expiresAt,
+      };
     }
-    return {
-      account: null,
-      password: '',
-      isAuthenticated: false,
-      expiresAt: null,
-      token: null,
-    };
+
+    const activeId = parsed.activeId && inboxes[parsed.activeId]
+      ? parsed.activeId
+      : parsed.account?.id && inboxes[parsed.account.id] ? parsed.account.id : Object.keys(inboxes)[0] ?? null;
+    return { inboxes, activeId };
+  } catch (error) {
+    console.error('Failed to parse saved inbox state:', error);
+    localStorage.removeItem('inbox-state');
+    return { inboxes: {}, activeId: null };
+  }
+}
+
+/**
+ * Point the shared provider (message viewer, live stream) at the active inbox
+ */
+function bindProvider(inbox: OpenInbox | null) {
+  if (inbox) {
+    getMailProvider().setToken(inbox.token);
+    getMailProvider().setCredentials(inbox.account.address, inbox.password);
+  } else {
+    getMailProvider().clearToken();
+  }
+}
+
+/**
+ * Provider scoped to one inbox so polling several inboxes never mixes tokens
+ */
+function createSession(inbox: OpenInbox): MailProvider {
+  return tempBox.session(inbox);
+}
+
+export function useInbox() {
+  const [inboxSet, setInboxSet] = useState<InboxSetState>(() => {
+    const restored = loadInboxSet();
+    bindProvider(restored.activeId ? restored.inboxes[restored.activeId] : null);
+    return restored;
   });
+  const inboxSetRef = useRef(inboxSet);
+  inboxSetRef.current = inboxSet;
+
+  const activeInbox = inboxSet.activeId ? inboxSet.inboxes[inboxSet.activeId] ?? null : null;
+  const inboxState = {
+    account: activeInbox?.account ?? null,
+    isAuthenticated: !!activeInbox,
+    createdAt: activeInbox?.createdAt ?? null,
+    expiresAt: activeInbox?.expiresAt ?? null,
+    token: activeInbox?.token ?? null,
+  };
 
-  // Always set token on mount if present
+  // Persist the open inboxes
   useEffect(() => {
-    if (inboxState.token) {
-      mailApi.setToken(inboxState.token);
-    }
-  }, [inboxState.token]);
+    localStorage.setItem('inbox-state', JSON.stringify(inboxSet));
+  }, [inboxSet]);
+
+  // Share opened, closed and updated inboxes with the other tabs
+  const lastSyncedInboxes = useRef(JSON.stringify(inboxSet.inboxes));
+  useEffect(() => {
+    const serialized = JSON.stringify(inboxSet.inboxes);
+    if (serialized === lastSyncedInboxes.current) return;
+    lastSyncedInboxes.current = serialized;
+    tabSyncService.publish({ type: 'inboxes', inboxes: inboxSet.inboxes });
+  }, [inboxSet.inboxes]);
+
+  // Keep the shared provider on the active inbox's token
+  useEffect(() => {
+    bindProvider(activeInbox);
+  }, [activeInbox]);
+
+  // Persist tokens renewed by the provider or a session after a 401
+  useEffect(() => {
+    return getMailProvider().onTokenRefresh(({ address, token }) => {
+      const inbox = Object.values(inboxSetRef.current.inboxes).find(i => i.account.address === address);
+      if (!inbox || inbox.token === token) return;
+
+      storageService.updateAccountToken(inbox.account.id, token);
+      setInboxSet(prev => {
+        const current = prev.inboxes[inbox.account.id];
+        if (!current) return prev;
+        return {
+          ...prev,
+          inboxes: { ...prev.inboxes, [inbox.account.id]: { ...current, token } },
+        };
+      });
+    });
+  }, []);
 
   const queryClient = useQueryClient();
+  const { isLeader, peerVisible } = useTabSync();
 
-  // Shared function to reset inbox state
-  const resetInboxState = useCallback(() => {
-    setInboxState({
-      account: null,
-      password: '',
-      isAuthenticated: false,
-      expiresAt: null,
-      token: null,
+  // Apply updates made in other tabs
+  useEffect(() => {
+    return tabSyncService.subscribe((message) => {
+      switch (message.type) {
+        case 'inboxes': {
+          lastSyncedInboxes.current = JSON.stringify(message.inboxes);
+          for (const accountId of Object.keys(inboxSetRef.current.inboxes)) {
+            if (message.inboxes[accountId]) continue;
+            queryClient.removeQueries({ queryKey: ['messages', accountId] });
+            queryClient.removeQueries({ queryKey: ['inbox-summary', accountId] });
+          }
+          setInboxSet(prev => ({
+            inboxes: message.inboxes,
+            activeId: prev.activeId && message.inboxes[prev.activeId]
+              ? prev.activeId
+              : Object.keys(message.inboxes)[0] ?? null,
+          }));
+          break;
+        }
+        case 'messages':
+          applyFirstPage(queryClient, message.accountId, message.page);
+          break;
+        case 'message-read':
+          markMessageSeen(queryClient, message.messageId);
+          break;
+        case 'message-deleted':
+          removeCachedMessage(queryClient, message.messageId);
+          break;
+      }
     });
-    mailApi.clearToken();
-    localStorage.removeItem('inbox-state');
-    queryClient.removeQueries({ queryKey: ['messages'] });
+  }, [queryClient]);
+
+  // Close one inbox, moving to another open inbox if it was the active one
+  const removeInbox = useCallback((accountId: string) => {
+    setInboxSet(prev => {
+      if (!prev.inboxes[accountId]) return prev;
+      const inboxes = { ...prev.inboxes };
+      delete inboxes[accountId];
+      const activeId = prev.activeId === accountId ? Object.keys(inboxes)[0] ?? null : prev.activeId;
+      return { inboxes, activeId };
+    });
+    queryClient.removeQueries({ queryKey: ['messages', accountId] });
+    queryClient.removeQueries({ queryKey: ['inbox-summary', accountId] });
+    clearMessageFilter(accountId);
+    webhookService.removeConfig(accountId);
+  }, [queryClient]);
+
+  const switchInbox = useCallback((accountId: string) => {
+    setInboxSet(prev => (prev.inboxes[accountId] ? { ...prev, activeId: accountId } : prev));
+  }, []);
+
+  // Push an open inbox's expiry back, keeping storage and the countdown in step
+  const extendInbox = useCallback((accountId: string, additionalMs: number) => {
+    const inbox = inboxSetRef.current.inboxes[accountId];
+    if (!inbox?.expiresAt) return;
+
+    const stored = storageService.extendAccountExpiration(accountId, additionalMs);
+    const expiresAt = stored?.expiresAt
+      ?? new Date(Math.max(inbox.expiresAt.getTime(), Date.now()) + additionalMs);
+
+    setInboxSet(prev => {
+      const current = prev.inboxes[accountId];
+      if (!current) return prev;
+      return {
+        ...prev,
+        inboxes: { ...prev.inboxes, [accountId]: { ...current, expiresAt } },
+      };
+    });
+
+    console.log('🕐 Inbox extended:', { accountId, expiresAt });
+    toast.success(`Inbox extended by ${formatDuration(additionalMs)}`, {
+      icon: '🕐',
+      duration: 2000,
+    });
+  }, []);
+
+  // Open an inbox alongside the others and switch to it
+  const openInbox = useCallback((inbox: OpenInbox) => {
+    setInboxSet(prev => ({
+      inboxes: { ...prev.inboxes, [inbox.account.id]: inbox },
+      activeId: inbox.account.id,
+    }));
+
+    // Start automated cleanup service if not already running
+    cleanupService.startAutomatedCleanup();
+
+    // Start polling for messages immediately
+    queryClient.invalidateQueries({ queryKey: ['messages', inbox.account.id] });
   }, [queryClient]);
 
   // Fetch available domains
@@ -74,119 +260,170 @@ export function useInbox() {
     error: domainsErrorMessage 
   } = useQuery({
     queryKey: ['domains'],
-    queryFn: () => mailApi.getDomains(),
+    queryFn: () => getMailProvider().getDomains(),
     staleTime: 5 * 60 * 1000, // 5 minutes
     retry: 3,
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
   });
 
-  // Create inbox mutation with 10-minute expiry
+  // Create inbox mutation, expiring after the configured lifetime
   const createInboxMutation = useMutation({
-    mutationFn: async () => {
-      console.log('🚀 Creating new inbox...');
-      console.log('📋 Available domains:', domains);
-      
-      const activeDomains = domains.filter(d => d.isActive && !d.isPrivate);
-      console.log('✅ Active domains:', activeDomains);
-      
-      if (activeDomains.length === 0) {
-        console.error('❌ No available domains found');
-        throw new Error('No available domains found. Please try again later.');
-      }
-
-      const randomDomain = activeDomains[Math.floor(Math.random() * activeDomains.length)];
-      const username = Math.random().toString(36).substring(2, 10);
-      const address = `${username}@${randomDomain.domain}`;
-      const password = Math.random().toString(36).substring(2, 15);
+    mutationFn: async (options: CreateInboxOptions = {}) => {
+      console.log('🚀 Creating new inbox...', options);
 
-      console.log('📧 Creating account:', { address });
+      if (Object.keys(inboxSetRef.current.inboxes).length >= MAX_ACTIVE_INBOXES) {
+        throw new ValidationError(`You can keep up to ${MAX_ACTIVE_INBOXES} inboxes open. Delete one first.`);
+      }
 
-      // Create the account and wait for it to be ready
-      await mailApi.createAccount(address, password);
-      
-      // Get authentication token
-      const token = await mailApi.getToken(address, password);
-      mailApi.setToken(token.token);
-      
-      // Ensure the account is properly initialized by fetching it
-      const verifiedAccount = await mailApi.getAccount();
-      
-      // Wait a moment to ensure the account is fully ready
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      console.log('✅ Inbox created successfully:', { accountId: verifiedAccount.id, address: verifiedAccount.address });
-      
-      return { account: verifiedAccount, password, token };
+      const lifetime = options.lifetime ?? settingsService.getSettings().inboxLifetime;
+      const inbox = await tempBox.createInbox({ ...options, lifetime }, domains);
+      return { inbox, lifetime };
     },
-    onSuccess: ({ account, password, token }) => {
-      const expiresAt = new Date();
-      expiresAt.setMinutes(expiresAt.getMinutes() + 10); // 10 minutes expiry
+    onSuccess: ({ inbox, lifetime }) => {
+      openInbox(inbox);
 
-      const newState = {
-        account,
-        password,
-        isAuthenticated: true,
-        expiresAt,
-        token: token.token,
-      };
+      toast.success(`Inbox created successfully! (${getLifetimeOption(lifetime).label.toLowerCase()})`, {
+        icon: '📬',
+        duration: 3000,
+      });
+    },
+    onError: (error) => {
+      console.error('❌ Failed to create inbox:', error);
+      // Nothing is opened until creation succeeds, so the current inboxes stay usable
+      if (error instanceof ValidationError) {
+        const message = /already used/i.test(error.message)
+          ? 'That address is already taken. Try another username.'
+          : error.message;
+        toast.error(message, {
+          icon: '❌',
+        });
+        return;
+      }
+      toast.error(error.message || 'Failed to create inbox', {
+        icon: '❌',
+      });
+    },
+  });
 
-      setInboxState(newState);
+  // Sign back into an existing inbox, keeping the lifetime it had when it was created here
+  const restoreInboxMutation = useMutation({
+    mutationFn: async ({ address, password }: RestoreInboxOptions) => {
+      const normalizedAddress = address.trim().toLowerCase();
+      console.log('🔓 Restoring inbox:', { address: normalizedAddress });
 
-      // Save to localStorage (legacy support)
-      localStorage.setItem('inbox-state', JSON.stringify(newState));
+      const alreadyOpen = Object.values(inboxSetRef.current.inboxes)
+        .find(inbox => inbox.account.address === normalizedAddress);
+      // An open inbox whose sign-in was rejected is signed in again with the given password
+      const signInRejected = alreadyOpen
+        && queryClient.getQueryState(['messages', alreadyOpen.account.id])?.error instanceof UnauthorizedError;
+      if (alreadyOpen && !signInRejected) {
+        return { inbox: alreadyOpen, alreadyOpen: true };
+      }
 
-      // Store account data with enhanced metadata
-      storageService.storeAccount(account, password, token.token, expiresAt);
+      if (!alreadyOpen && Object.keys(inboxSetRef.current.inboxes).length >= MAX_ACTIVE_INBOXES) {
+        throw new ValidationError(`You can keep up to ${MAX_ACTIVE_INBOXES} inboxes open. Delete one first.`);
+      }
 
-      // Start automated cleanup service if not already running
-      cleanupService.startAutomatedCleanup();
+      // Inboxes created elsewhere start a fresh lifetime here
+      const inbox = await tempBox.restoreInbox({
+        address: normalizedAddress,
+        password,
+        lifetime: settingsService.getSettings().inboxLifetime,
+      });
+      return { inbox, alreadyOpen: false };
+    },
+    onSuccess: ({ inbox, alreadyOpen }) => {
+      if (alreadyOpen) {
+        switchInbox(inbox.account.id);
+        toast.success('That inbox is already open', {
+          icon: '📬',
+          duration: 2000,
+        });
+        return;
+      }
 
-      toast.success('Inbox created successfully! (10 minutes)', {
-        icon: '📬',
+      openInbox(inbox);
+      toast.success('Inbox restored!', {
+        icon: '🔓',
         duration: 3000,
       });
-
-      // Start polling for messages immediately
-      queryClient.invalidateQueries({ queryKey: ['messages', account.id] });
     },
     onError: (error) => {
-      console.error('❌ Failed to create inbox:', error);
-      // Reset state if inbox creation fails to ensure clean state
-      resetInboxState();
-      toast.error(error.message || 'Failed to create inbox', {
+      console.error('❌ Failed to restore inbox:', error);
+      const message = error instanceof UnauthorizedError
+        ? 'Address or password is incorrect'
+        : error.message || 'Failed to restore inbox';
+      toast.error(message, {
         icon: '❌',
       });
     },
   });
 
-  // Fetch messages with enhanced debugging and throttling
-  const messagesQuery = useQuery<MailMessage[]>({
+  // Real-time delivery over Mercure, polling below only runs while the stream is down
+  const { status: streamStatus, isLive } = useMessageStream(
+    inboxState.isAuthenticated ? inboxState.account?.id : undefined,
+    inboxState.token
+  );
+
+  // Poll fast while a fresh inbox waits for its first mail, back off while idle
+  const { isVisible, isOnline, isActive: isPageActive } = usePageActivity();
+  // Without the stream, a hidden tab still has to poll for its notifications, badges and webhooks
+  const { settings } = useSettings();
+  const keepPollingWhileHidden = notificationService.hasEnabledSignal(settings)
+    || webhookService.hasEnabledWebhook(Object.keys(inboxSet.inboxes));
+  const inboxCreatedAt = inboxState.createdAt?.getTime();
+  const planPolling = useCallback((latestMessageAt?: string): PollingPlan => {
+    const now = Date.now();
+    const createdAt = inboxCreatedAt ?? now;
+    const lastActivity = Math.max(createdAt, latestMessageAt ? new Date(latestMessageAt).getTime() : 0);
+    return getPollingPlan({
+      isLeader,
+      // The leader keeps polling for a visible follower tab
+      isVisible: isVisible || peerVisible,
+      isOnline,
+      keepPollingWhileHidden,
+      inboxAgeMs: now - createdAt,
+      idleMs: now - lastActivity,
+    });
+  }, [inboxCreatedAt, isLeader, isVisible, peerVisible, isOnline, keepPollingWhileHidden]);
+
+  // Fetch message pages with enhanced debugging and throttling
+  const messagesQuery = useInfiniteQuery<
+    PaginatedCollection<MailMessage>,
+    Error,
+    InfiniteData<PaginatedCollection<MailMessage>>,
+    Array<string | undefined>,
+    number
+  >({
     queryKey: ['messages', inboxState.account?.id],
-    queryFn: async () => {
-      console.log('🔍 Fetching messages...');
+    initialPageParam: 1,
+    queryFn: async ({ pageParam }) => {
+      console.log('🔍 Fetching messages page', pageParam);
       console.log('🔍 Account ID:', inboxState.account?.id);
       console.log('🔍 Token present:', !!inboxState.token);
       console.log('🔍 Is authenticated:', inboxState.isAuthenticated);
       
       try {
-        const result = await mailApi.getMessages();
+        // Polling the first page is background work, paging further is user driven
+        const result = await createSession(activeInbox!).getMessages(pageParam, undefined, {
+          priority: pageParam === 1 ? 'background' : 'interactive',
+        });
+        if (pageParam === 1) {
+          tabSyncService.publish({ type: 'messages', accountId: activeInbox!.account.id, page: result });
+        }
         console.log('📨 Raw API response:', result);
-        console.log('📊 Messages count:', result?.length || 0);
+        console.log('📊 Messages count:', result.items.length, 'of', result.totalItems);
         
-        if (result && result.length > 0) {
-          console.log('📧 First message sample:', result[0]);
+        if (result.items.length > 0) {
+          console.log('📧 First message sample:', result.items[0]);
         }
         
-        // Ensure we always return an array
-        const messagesArray = Array.isArray(result) ? result : [];
-        console.log('✅ Processed messages array:', messagesArray);
-        
         // Update access tracking for current account
         if (inboxState.account) {
-          storageService.updateAccountAccess(inboxState.account.id, messagesArray.length);
+          storageService.updateAccountAccess(inboxState.account.id, result.totalItems);
         }
         
-        return messagesArray;
+        return result;
       } catch (error) {
         console.error('❌ Error fetching messages:', error);
         // Log more details about the error
@@ -197,35 +434,178 @@ export function useInbox() {
         throw error;
       }
     },
-    enabled: !!inboxState.account && inboxState.isAuthenticated && !!inboxState.token,
+    getNextPageParam: (lastPage) => lastPage.nextPage ?? undefined,
+    enabled: !!activeInbox,
     refetchInterval: (query) => {
-      const data = query.state.data;
-      // Slower polling to reduce server load
-      return Array.isArray(data) && data.length > 0 ? 15000 : 5000; // 15s if has messages, 5s if empty
+      if (isLive) return false;
+      return planPolling(query.state.data?.pages[0]?.items[0]?.createdAt).interval;
     },
+    // Visibility is handled by the polling plan, a hidden leader still polls for its followers
+    refetchIntervalInBackground: true,
     staleTime: 2000, // Consider data stale after 2 seconds
     retry: (failureCount, error) => {
       console.log(`🔄 Retry attempt ${failureCount} for messages fetch:`, error);
+      // Auth and validation failures will not fix themselves
+      if (error instanceof MailApiError && !error.isRetryable) return false;
       return failureCount < 2; // Reduced retry attempts
     },
-    retryDelay: (attemptIndex) => Math.min(2000 * 2 ** attemptIndex, 10000), // Faster retry with cap
-    onError: (error) => {
-      // Handle account no longer exists error
-      if (error.message === 'This account no longer exists.') {
-        console.log('🔄 Account no longer exists, resetting inbox state');
-        resetInboxState();
-        toast.error('Account has expired. Please create a new inbox.', {
-          icon: '⏰',
-        });
+    retryDelay: (attemptIndex, error) => {
+      if (error instanceof RateLimitedError && error.retryAfterMs) {
+        return error.retryAfterMs;
       }
+      return Math.min(2000 * 2 ** attemptIndex, 10000); // Faster retry with cap
     },
   });
 
-  const messages = useMemo(() => messagesQuery.data ?? [], [messagesQuery.data]);
+  // Flatten pages, dropping duplicates that shift between pages as new mail arrives
+  const messages = useMemo(() => {
+    const seen = new Set<string>();
+    const flattened: MailMessage[] = [];
+    for (const page of messagesQuery.data?.pages ?? []) {
+      for (const message of page.items) {
+        if (seen.has(message.id)) continue;
+        seen.add(message.id);
+        flattened.push(message);
+      }
+    }
+    return flattened;
+  }, [messagesQuery.data]);
+  const totalMessages = messagesQuery.data?.pages[0]?.totalItems ?? messages.length;
   const messagesLoading = messagesQuery.isLoading;
   const refetchMessages = messagesQuery.refetch;
   const isMessagesError = messagesQuery.isError;
   const messagesError = messagesQuery.error;
+  const { fetchNextPage, hasNextPage, isFetchingNextPage } = messagesQuery;
+  const pollingPlan = planPolling(messages[0]?.createdAt);
+
+  // Catch up as soon as the page is visible and online again
+  const wasPageActive = useRef(isPageActive);
+  useEffect(() => {
+    if (isPageActive && !wasPageActive.current && activeInbox) {
+      console.log('👀 Page active again, refreshing messages');
+      refetchMessages();
+      queryClient.invalidateQueries({ queryKey: ['inbox-summary'] });
+    }
+    wasPageActive.current = isPageActive;
+  }, [isPageActive, activeInbox, refetchMessages, queryClient]);
+
+  // The other open inboxes only need their first page for unread counts
+  const backgroundInboxes = Object.values(inboxSet.inboxes).filter(inbox => inbox.account.id !== inboxSet.activeId);
+  const summaryPollInterval: number | false = !isLeader || !isOnline ? false
+    : isVisible || peerVisible ? SUMMARY_POLL_INTERVAL
+    : keepPollingWhileHidden ? HIDDEN_INTERVAL_MS
+    : false;
+  const summaryQueries = useQueries({
+    queries: backgroundInboxes.map(inbox => ({
+      queryKey: ['inbox-summary', inbox.account.id],
+      queryFn: async () => {
+        const page = await createSession(inbox).getMessages(1, undefined, { priority: 'background' });
+        tabSyncService.publish({ type: 'messages', accountId: inbox.account.id, page });
+        return page;
+      },
+      refetchInterval: summaryPollInterval,
+      refetchIntervalInBackground: true,
+      retry: (failureCount: number, error: Error) => {
+        if (error instanceof MailApiError && !error.isRetryable) return false;
+        return failureCount < 2;
+      },
+    })),
+  });
+
+  const inboxes: InboxSummary[] = Object.values(inboxSet.inboxes).map(inbox => {
+    const isActive = inbox.account.id === inboxSet.activeId;
+    const summary = summaryQueries[backgroundInboxes.indexOf(inbox)]?.data;
+    const unreadCount = isActive
+      ? messages.filter(m => !m.seen).length
+      : summary?.items.filter(m => !m.seen).length ?? 0;
+    return { account: inbox.account, createdAt: inbox.createdAt, expiresAt: inbox.expiresAt, unreadCount, isActive };
+  });
+
+  // Unread count across all open inboxes in the title and favicon
+  const totalUnread = inboxes.reduce((sum, inbox) => sum + inbox.unreadCount, 0);
+  useEffect(() => {
+    notificationService.setUnreadBadge(totalUnread);
+  }, [totalUnread]);
+  useEffect(() => () => notificationService.setUnreadBadge(0), []);
+
+  // Announce messages that were not in an inbox's previous cache. The first
+  // load of an inbox only records what is already there.
+  useEffect(() => {
+    const knownIds = new Map<string, Set<string>>();
+
+    return queryClient.getQueryCache().subscribe((event) => {
+      if (event.type !== 'updated' || event.action.type !== 'success') return;
+
+      const [scope, accountId] = event.query.queryKey as [string, string | undefined];
+      if (!accountId || (scope !== 'messages' && scope !== 'inbox-summary')) return;
+
+      const data = event.query.state.data;
+      const items: MailMessage[] = scope === 'messages'
+        ? (data as InfiniteData<PaginatedCollection<MailMessage>>).pages.flatMap(page => page.items)
+        : (data as PaginatedCollection<MailMessage>).items;
+
+      const known = knownIds.get(accountId);
+      knownIds.set(accountId, new Set([...(known ?? []), ...items.map(m => m.id)]));
+      const inbox = inboxSetRef.current.inboxes[accountId];
+      const isLeader = tabSyncService.getState().isLeader;
+
+      // Archive everything not seen before, including mail that came in while the app was closed
+      const unknown = known ? items.filter(m => !known.has(m.id)) : items;
+      if (inbox && isLeader) {
+        archiveService.archiveNewMessages(accountId, unknown, createSession(inbox));
+      }
+      if (!known) return;
+
+      const arrived = unknown.filter(m => !m.seen);
+      if (arrived.length === 0 || !inbox) return;
+
+      // Every tab sees the same mail, only the leader announces and forwards it
+      if (isLeader) {
+        notificationService.notifyNewMessages(arrived, inbox.account.address);
+        webhookService.forwardMessages(inbox.account, arrived, createSession(inbox));
+      }
+
+      // The clipboard belongs to whichever tab the user is looking at
+      if (settingsService.getSettings().autoCopyVerification && document.hasFocus()) {
+        const verification = arrived
+          .map(message => getBestVerification(message))
+          .find(candidate => candidate !== null && isConfidentVerification(candidate));
+        if (verification) {
+          writeClipboard(verification.value)
+            .then(() => toast.success(`Copied ${verification.kind === 'code' ? 'code' : 'link'} from new mail`, { icon: '📋' }))
+            .catch(error => console.warn('⚠️ Unable to copy verification automatically:', error));
+        }
+      }
+    });
+  }, [queryClient]);
+
+  // Handle account no longer exists error
+  const activeId = inboxSet.activeId;
+  useEffect(() => {
+    if (messagesError instanceof AccountGoneError && activeId) {
+      console.log('🔄 Account no longer exists, closing inbox:', activeId);
+      removeInbox(activeId);
+      toast.error('Account has expired. Please create a new inbox.', {
+        icon: '⏰',
+      });
+    }
+  }, [messagesError, activeId, removeInbox]);
+
+  const goneBackgroundIds = backgroundInboxes
+    .filter((_, index) => summaryQueries[index]?.error instanceof AccountGoneError)
+    .map(inbox => inbox.account.id)
+    .join(',');
+  useEffect(() => {
+    if (!goneBackgroundIds) return;
+    for (const accountId of goneBackgroundIds.split(',')) {
+      const address = inboxSetRef.current.inboxes[accountId]?.account.address;
+      console.log('🔄 Account no longer exists, closing inbox:', accountId);
+      removeInbox(accountId);
+      toast.error(`${address ?? 'An inbox'} no longer exists`, {
+        icon: '⏰',
+      });
+    }
+  }, [goneBackgroundIds, removeInbox]);
 
   // Enhanced logging for messages state changes
   useEffect(() => {
@@ -244,9 +624,14 @@ export function useInbox() {
 
   // Delete inbox mutation
   const deleteInboxMutation = useMutation({
-    mutationFn: () => mailApi.deleteAccount(inboxState.account!.id),
-    onSuccess: () => {
-      resetInboxState();
+    mutationFn: async (accountId: string) => {
+      const inbox = inboxSetRef.current.inboxes[accountId];
+      if (inbox) {
+        await tempBox.deleteInbox(inbox);
+      }
+    },
+    onSuccess: (_, accountId) => {
+      removeInbox(accountId);
       toast.success('Inbox deleted successfully!', {
         icon: '🗑️',
       });
@@ -261,8 +646,10 @@ export function useInbox() {
 
   // Delete message mutation
   const deleteMessageMutation = useMutation({
-    mutationFn: (messageId: string) => mailApi.deleteMessage(messageId),
-    onSuccess: () => {
+    mutationFn: (messageId: string) => createSession(activeInbox!).deleteMessage(messageId),
+    onSuccess: (_, messageId) => {
+      removeCachedMessage(queryClient, messageId);
+      tabSyncService.publish({ type: 'message-deleted', messageId });
       queryClient.invalidateQueries({ queryKey: ['messages'] });
       toast.success('Message deleted successfully!', {
         icon: '🗑️',
@@ -280,20 +667,7 @@ export function useInbox() {
   // Copy email to clipboard with fallback
   const copyToClipboard = useCallback(async (text: string) => {
     try {
-      if (navigator.clipboard && window.isSecureContext) {
-        await navigator.clipboard.writeText(text);
-      } else {
-        // Fallback for insecure context or unsupported browsers
-        const textarea = document.createElement('textarea');
-        textarea.value = text;
-        textarea.style.position = 'fixed';
-        textarea.style.left = '-9999px';
-        document.body.appendChild(textarea);
-        textarea.focus();
-        textarea.select();
-        document.execCommand('copy');
-        document.body.removeChild(textarea);
-      }
+      await writeClipboard(text);
       toast.success('Copied to clipboard!', {
         icon: '📋',
         duration: 2000,
@@ -307,28 +681,54 @@ export function useInbox() {
   }, []);
 
   // Check if inbox is expired
-  const isExpired = inboxState.expiresAt ? new Date() > inboxState.expiresAt : false;
+  const inboxExpired = isExpired(inboxState.expiresAt);
 
-  // Auto-cleanup expired inbox
+  // Close inboxes once their stored lifetime runs out (the lifetime may have been
+  // extended in another tab). The leader deletes the account right away so it
+  // stops receiving mail; the hourly cleanup sweep retries if that fails.
   useEffect(() => {
-    if (isExpired && inboxState.account) {
-      console.log('⏰ Inbox expired, cleaning up...');
-      resetInboxState();
-      toast.error('Inbox has expired', {
-        icon: '⏰',
-      });
-    }
-  }
-  )
+    const closeExpiredInboxes = () => {
+      const { inboxes: open, activeId: currentId } = inboxSetRef.current;
+      for (const inbox of Object.values(open)) {
+        if (!isExpired(inbox.expiresAt)) continue;
+        const isActive = inbox.account.id === currentId;
+        console.log(isActive ? '⏰ Inbox expired, cleaning up...' : '⏰ Background inbox expired:', inbox.account.address);
+        removeInbox(inbox.account.id);
+        toast.error(isActive ? 'Inbox has expired' : `${inbox.account.address} has expired`, {
+          icon: '⏰',
+        });
+
+        if (tabSyncService.getState().isLeader) {
+          tempBox.deleteInbox(inbox, { priority: 'background' }).catch(error => {
+            console.warn('⚠️ Failed to delete expired inbox, leaving it to the cleanup sweep:', inbox.account.address, error);
+          });
+        }
+      }
+    };
+
+    closeExpiredInboxes();
+    const interval = setInterval(closeExpiredInboxes, 1000);
+    return () => clearInterval(interval);
+  }, [removeInbox]);
+
+  // Replace a broken active inbox with a fresh one
+  const startNewInbox = useCallback(() => {
+    if (activeId) removeInbox(activeId);
+    createInboxMutation.mutate({});
+  }, [activeId, removeInbox, createInboxMutation]);
 
   // Enhanced error handling with reduced retry frequency
   useEffect(() => {
-    if (isMessagesError && inboxState.isAuthenticated) {
-      console.log('🔄 Messages error detected, will retry in 10 seconds:', messagesError);
+    const recoverable = !(messagesError instanceof MailApiError) || messagesError.isRetryable;
+    if (isMessagesError && inboxState.isAuthenticated && recoverable) {
+      const delay = messagesError instanceof RateLimitedError && messagesError.retryAfterMs
+        ? messagesError.retryAfterMs
+        : 10000; // Increased retry delay
+      console.log(`🔄 Messages error detected, will retry in ${delay / 1000} seconds:`, messagesError);
       const timer = setTimeout(() => {
         console.log('🔄 Retrying messages fetch...');
         refetchMessages();
-      }, 10000); // Increased retry delay
+      }, delay);
       return () => clearTimeout(timer);
     }
   }, [isMessagesError, inboxState.isAuthenticated, refetchMessages, messagesError]);
@@ -343,9 +743,16 @@ export function useInbox() {
     // State
     account: inboxState.account,
     messages: safeMessages,
+    totalMessages,
+    hasMoreMessages: hasNextPage,
     isAuthenticated: inboxState.isAuthenticated,
+    createdAt: inboxState.createdAt,
     expiresAt: inboxState.expiresAt,
-    isExpired,
+    isExpired: inboxExpired,
+
+    // Open inboxes
+    inboxes,
+    activeInboxId: activeId,
     
     // Domain state
     domains,
@@ -356,18 +763,38 @@ export function useInbox() {
     // Loading states
     isCreating: createInboxMutation.isPending,
     isDeleting: deleteInboxMutation.isPending,
+    isRestoring: restoreInboxMutation.isPending,
     messagesLoading,
+    isFetchingMoreMessages: isFetchingNextPage,
     
     // Error states
     isMessagesError,
     messagesError,
+
+    // Real-time stream state
+    streamStatus,
+    pollingInterval: isLive ? false : pollingPlan.interval,
+    pollingReason: pollingPlan.reason,
+    isLeaderTab: isLeader,
     
     // Actions
-    createInbox: () => createInboxMutation.mutate(),
-    deleteInbox: () => deleteInboxMutation.mutate(),
+    createInbox: (options?: CreateInboxOptions) => createInboxMutation.mutate(options),
+    createInboxError: createInboxMutation.error,
+    deleteInbox: (accountId?: string) => {
+      const target = accountId ?? activeId;
+      if (target) deleteInboxMutation.mutate(target);
+    },
+    switchInbox,
+    extendInbox: (additionalMs: number, accountId?: string) => {
+      const target = accountId ?? activeId;
+      if (target) extendInbox(target, additionalMs);
+    },
+    restoreInbox: (options: RestoreInboxOptions) => restoreInboxMutation.mutate(options),
+    startNewInbox,
     deleteMessage: deleteMessageMutation.mutate,
     copyToClipboard,
     refetchMessages,
+    loadMoreMessages: fetchNextPage,
   };
 }
 
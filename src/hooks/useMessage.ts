@@ -1,11 +1,35 @@
-import { useQuery } from '@tanstack/react-query';
-import { mailApi } from '../services/mailApi';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getMailProvider } from '../services/mailProvider';
+import { tabSyncService } from '../services/tabSync';
+import { archiveService } from '../services/archiveService';
+import { noteMessageOpened } from '../services/peekMessage';
+import { markMessageSeen } from '../utils/messageCache';
 
 export function useMessage(messageId: string | null) {
+  const queryClient = useQueryClient();
+
   return useQuery({
     queryKey: ['message', messageId],
-    queryFn: () => mailApi.getMessage(messageId!),
+    queryFn: async () => {
+      const message = await getMailProvider().getMessage(messageId!);
+      // mail.tm marks a message as seen once it has been fetched
+      markMessageSeen(queryClient, message.id);
+      noteMessageOpened(message.id);
+      tabSyncService.publish({ type: 'message-read', messageId: message.id });
+      // Keep a copy that outlives the inbox, in the background
+      archiveService.archiveMessage(message);
+      return message;
+    },
     enabled: !!messageId,
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
-}
\ No newline at end of file
+}
+
+export function useMessageSource(messageId: string | null, enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['message-source', messageId],
+    queryFn: () => getMailProvider().getMessageSource(messageId!),
+    enabled: !!messageId && enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
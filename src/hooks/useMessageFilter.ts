@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useState } from 'react';
+import { EMPTY_MESSAGE_FILTER, MessageFilter } from '../utils/messageFilter';
+
+const FILTERS_KEY = 'inbox-filters';
+
+function loadFilters(): Record<string, MessageFilter> {
+  try {
+    const stored = localStorage.getItem(FILTERS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Failed to parse inbox filters:', error);
+    return {};
+  }
+}
+
+function saveFilters(filters: Record<string, MessageFilter>): void {
+  localStorage.setItem(FILTERS_KEY, JSON.stringify(filters));
+}
+
+function loadFilter(accountId: string | null): MessageFilter {
+  if (!accountId) return EMPTY_MESSAGE_FILTER;
+  return { ...EMPTY_MESSAGE_FILTER, ...loadFilters()[accountId] };
+}
+
+/**
+ * Forget the saved filter of an inbox that was closed
+ */
+export function clearMessageFilter(accountId: string): void {
+  const filters = loadFilters();
+  if (!(accountId in filters)) return;
+  delete filters[accountId];
+  saveFilters(filters);
+}
+
+/**
+ * Search and filter state of an inbox's message list, saved per inbox
+ */
+export function useMessageFilter(accountId: string | null) {
+  const [filter, setFilter] = useState<MessageFilter>(() => loadFilter(accountId));
+
+  // Each inbox keeps its own filter
+  useEffect(() => {
+    setFilter(loadFilter(accountId));
+  }, [accountId]);
+
+  const updateFilter = useCallback((changes: Partial<MessageFilter>) => {
+    const next = { ...filter, ...changes };
+    setFilter(next);
+    if (accountId) {
+      saveFilters({ ...loadFilters(), [accountId]: next });
+    }
+  }, [accountId, filter]);
+
+  const resetFilter = useCallback(() => {
+    setFilter(EMPTY_MESSAGE_FILTER);
+    if (accountId) clearMessageFilter(accountId);
+  }, [accountId]);
+
+  return { filter, updateFilter, resetFilter };
+}
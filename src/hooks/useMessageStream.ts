@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient, InfiniteData } from '@tanstack/react-query';
+import { getMailProvider } from '../services/mailProvider';
+import { messageStreamService, MessageStreamStatus } from '../services/messageStream';
+import { MailMessage, PaginatedCollection } from '../types/api';
+
+type MessagePages = InfiniteData<PaginatedCollection<MailMessage>>;
+
+/**
+ * Apply a streamed message to the cached pages: update in place, remove when
+ * deleted, or prepend to the first page when new
+ */
+function applyStreamedMessage(data: MessagePages, message: MailMessage): MessagePages {
+  const exists = data.pages.some(page => page.items.some(m => m.id === message.id));
+  const delta = message.isDeleted ? (exists ? -1 : 0) : (exists ? 0 : 1);
+
+  const pages = data.pages.map((page, index) => {
+    let items = page.items;
+    if (message.isDeleted) {
+      items = items.filter(m => m.id !== message.id);
+    } else if (exists) {
+      items = items.map(m => (m.id === message.id ? { ...m, ...message } : m));
+    } else if (index === 0) {
+      items = [message, ...items];
+    }
+    return { ...page, items, totalItems: page.totalItems + delta };
+  });
+
+  return { ...data, pages };
+}
+
+/**
+ * Subscribe to real-time account events and push them into the
+ * ['messages', accountId] query cache
+ */
+export function useMessageStream(accountId: string | undefined, token: string | null) {
+  const [status, setStatus] = useState<MessageStreamStatus>('idle');
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!accountId || !token) return;
+
+    const url = getMailProvider().getMessageStreamUrl?.(accountId);
+    if (!url) {
+      setStatus('unavailable');
+      return;
+    }
+
+    const queryKey = ['messages', accountId];
+
+    return messageStreamService.subscribe(url, {
+      onMessage: (message) => {
+        const cached = queryClient.getQueryData<MessagePages>(queryKey);
+        if (!cached) {
+          queryClient.invalidateQueries({ queryKey });
+          return;
+        }
+        queryClient.setQueryData<MessagePages>(queryKey, applyStreamedMessage(cached, message));
+      },
+      onAccountUpdate: () => {
+        queryClient.invalidateQueries({ queryKey });
+      },
+      onStatusChange: (nextStatus) => {
+        setStatus(nextStatus);
+        // Catch up on anything that arrived while the stream was down
+        if (nextStatus === 'open') {
+          queryClient.invalidateQueries({ queryKey });
+        }
+      },
+    });
+  }, [accountId, token, queryClient]);
+
+  return { status, isLive: status === 'open' };
+}
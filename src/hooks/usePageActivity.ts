@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Track whether the page is visible and the device is online
+ */
+export function usePageActivity() {
+  const [isVisible, setIsVisible] = useState(() => !document.hidden);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const handleVisibility = () => setIsVisible(!document.hidden);
+    const handleFocus = () => setIsVisible(true);
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('focus', handleFocus);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('focus', handleFocus);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return { isVisible, isOnline, isActive: isVisible && isOnline };
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { settingsService, AppSettings } from '../services/settingsService';
+
+export function useSettings() {
+  const [settings, setSettings] = useState<AppSettings>(() => settingsService.getSettings());
+
+  useEffect(() => settingsService.subscribe(setSettings), []);
+
+  return {
+    settings,
+    updateSettings: (changes: Partial<AppSettings>) => settingsService.updateSettings(changes),
+  };
+}
@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+import { tabSyncService, TabSyncState } from '../services/tabSync';
+
+/**
+ * Leadership and peer visibility of this tab
+ */
+export function useTabSync() {
+  const [state, setState] = useState<TabSyncState>(() => {
+    tabSyncService.start();
+    return tabSyncService.getState();
+  });
+
+  useEffect(() => tabSyncService.onStateChange(setState), []);
+
+  return state;
+}
@@ -0,0 +1,65 @@
+import { useMemo } from 'react';
+import { useQueries, useQueryClient, UseQueryResult } from '@tanstack/react-query';
+import { getMailProvider } from '../services/mailProvider';
+import { MailMessage, MessageSource } from '../types/api';
+import { buildThreads, isReplySubject, parseThreadHeaders, ThreadHeaders } from '../utils/threading';
+
+// Sources are whole messages, so only a few are downloaded at a time
+const MAX_SOURCE_FETCHES = 2;
+
+let sourceFetches = 0;
+const waitingFetches: Array<() => void> = [];
+
+async function withSourceSlot<T>(fetch: () => Promise<T>): Promise<T> {
+  if (sourceFetches < MAX_SOURCE_FETCHES) {
+    sourceFetches++;
+  } else {
+    // A finishing fetch hands its slot straight to the next one waiting
+    await new Promise<void>(resolve => waitingFetches.push(resolve));
+  }
+  try {
+    return await fetch();
+  } finally {
+    const next = waitingFetches.shift();
+    if (next) next();
+    else sourceFetches--;
+  }
+}
+
+// Kept stable so the combined result only changes when a header set does
+const combineHeaders = (results: UseQueryResult<ThreadHeaders>[]) => results.map(result => result.data);
+
+/**
+ * Group messages into conversations by subject and participants, then by
+ * their Message-ID, In-Reply-To and References headers. The list has no
+ * reference headers, so only replies and forwards have their source fetched,
+ * a few at a time as low-priority background work; a source already loaded
+ * for the raw view is reused.
+ */
+export function useThreads(messages: MailMessage[], enabled: boolean = true) {
+  const queryClient = useQueryClient();
+  const replies = useMemo(() => messages.filter(message => isReplySubject(message.subject)), [messages]);
+  const headers = useQueries({
+    queries: replies.map(message => ({
+      queryKey: ['thread-headers', message.id],
+      queryFn: async () => {
+        const source = queryClient.getQueryData<MessageSource>(['message-source', message.id])
+          ?? await withSourceSlot(() => getMailProvider().getMessageSource(message.id, { priority: 'background' }));
+        return parseThreadHeaders(source.data);
+      },
+      enabled,
+      // Headers never change, and a missing source just leaves the message to subject matching
+      staleTime: Infinity,
+      retry: false,
+    })),
+    combine: combineHeaders,
+  });
+
+  return useMemo(() => {
+    const byMessage: Record<string, ThreadHeaders> = {};
+    headers.forEach((messageHeaders, index) => {
+      if (messageHeaders) byMessage[replies[index].id] = messageHeaders;
+    });
+    return buildThreads(messages, byMessage);
+  }, [messages, replies, headers]);
+}
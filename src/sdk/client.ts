@@ -0,0 +1,258 @@
+import { Domain, MailMessage, MailMessageDetail, MessageSource, PaginatedCollection } from '../types/api';
+import { OpenInbox } from '../types/inbox';
+import { MailApiService } from '../services/mailApi';
+import type { MailProvider, RequestOptions } from '../services/mailProvider';
+import { ValidationError } from '../services/mailApiErrors';
+import { StorageService, StoredAccount } from '../services/storageService';
+import { waitForMessage, WaitForMessageOptions } from '../services/waitForMessage';
+import { generatePassword, generateUsername, pickRandom } from '../utils/credentials';
+import { expandUsernameTemplate, getTemplateSeries, validateUsername } from '../utils/usernameUtils';
+import { computeExpiresAt, DEFAULT_INBOX_LIFETIME, InboxLifetime, isExpired } from '../utils/lifetime';
+import { extractVerifications, VerificationCandidate, VerificationSource } from '../utils/verificationExtractor';
+import { getDefaultStorage, KeyValueStorage } from './storage';
+
+export interface CreateInboxOptions {
+  domain?: string;
+  username?: string;
+  template?: string;
+  lifetime?: InboxLifetime;
+}
+
+export interface RestoreInboxOptions {
+  address: string;
+  password: string;
+  /**
+   * Lifetime for inboxes this storage has not seen before
+   */
+  lifetime?: InboxLifetime;
+}
+
+export interface TempBoxClientOptions {
+  /**
+   * Mail backend, or a getter for one that may change. A new mail.tm
+   * provider by default.
+   */
+  provider?: MailProvider | (() => MailProvider);
+  /**
+   * Where inbox records and the audit log are kept. `localStorage` in
+   * browsers, an in-memory store elsewhere.
+   */
+  storage?: KeyValueStorage;
+  /**
+   * Pause after creating an inbox so the backend has it fully set up
+   */
+  settleDelayMs?: number;
+}
+
+/**
+ * An inbox to act on: its account ID or address, an open inbox, or a stored record
+ */
+export type InboxRef = string | OpenInbox | StoredAccount;
+
+const DEFAULT_SETTLE_DELAY_MS = 1000;
+
+/**
+ * Headless TempBox client: create, restore, read and delete inboxes and wait
+ * for mail without React, the DOM or toasts. Every inbox call goes through its
+ * own provider session, so several inboxes can be used side by side.
+ */
+export class TempBoxClient {
+  readonly accounts: StorageService;
+  private readonly getProvider: () => MailProvider;
+  private readonly settleDelayMs: number;
+
+  constructor(options: TempBoxClientOptions = {}) {
+    const { provider = new MailApiService() } = options;
+    this.getProvider = typeof provider === 'function' ? provider : () => provider;
+    this.accounts = new StorageService(options.storage ?? getDefaultStorage());
+    this.settleDelayMs = options.settleDelayMs ?? DEFAULT_SETTLE_DELAY_MS;
+
+    // A provider passed as a getter belongs to the caller, who tracks its tokens
+    if (typeof provider !== 'function') {
+      provider.onTokenRefresh(({ address, token }) => {
+        const stored = this.getInbox(address);
+        if (stored) this.accounts.updateAccountToken(stored.id, token);
+      });
+    }
+  }
+
+  async getDomains(): Promise<Domain[]> {
+    const domains = await this.getProvider().getDomains();
+    return domains.filter(domain => domain.isActive && !domain.isPrivate);
+  }
+
+  /**
+   * Create an inbox with a random, given or templated username and store it.
+   * Pass already loaded domains to skip fetching them.
+   */
+  async createInbox(options: CreateInboxOptions = {}, domains?: Domain[]): Promise<OpenInbox> {
+    const activeDomains = (domains ?? await this.getDomains()).filter(d => d.isActive && !d.isPrivate);
+    if (activeDomains.length === 0) {
+      throw new Error('No available domains found. Please try again later.');
+    }
+
+    let domain = pickRandom(activeDomains);
+    if (options.domain) {
+      const requested = activeDomains.find(d => d.domain === options.domain);
+      if (!requested) {
+        throw new ValidationError(`Domain ${options.domain} is not available`);
+      }
+      domain = requested;
+    }
+
+    let username = generateUsername();
+    if (options.username) {
+      username = options.username.trim().toLowerCase();
+    } else if (options.template) {
+      const series = getTemplateSeries(options.template);
+      username = expandUsernameTemplate(options.template, this.accounts.getNextTemplateSequence(series));
+    }
+
+    const usernameError = validateUsername(username);
+    if (usernameError) {
+      throw new ValidationError(usernameError);
+    }
+
+    const address = `${username}@${domain.domain}`;
+    const password = generatePassword();
+    const provider = this.getProvider();
+
+    await provider.createAccount(address, password);
+    const { token, session } = await this.signIn(address, password);
+    // Make sure the account is usable before handing it out
+    const account = await session.getAccount();
+
+    if (this.settleDelayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.settleDelayMs));
+    }
+
+    const createdAt = new Date();
+    const expiresAt = computeExpiresAt(options.lifetime ?? DEFAULT_INBOX_LIFETIME, createdAt);
+    this.accounts.storeAccount(account, password, token, expiresAt);
+
+    console.log('✅ Inbox created:', { accountId: account.id, address: account.address });
+    return { account, password, token, createdAt, expiresAt };
+  }
+
+  /**
+   * Sign back into an existing inbox. Inboxes known to this storage keep the
+   * lifetime they were created with; others start a fresh one.
+   */
+  async restoreInbox({ address, password, lifetime }: RestoreInboxOptions): Promise<OpenInbox> {
+    const normalizedAddress = address.trim().toLowerCase();
+    const { token, session } = await this.signIn(normalizedAddress, password);
+    const account = await session.getAccount();
+
+    const stored = this.accounts.getStoredAccount(account.id);
+    if (stored && (stored.deleted || isExpired(stored.expiresAt))) {
+      throw new ValidationError('This inbox has expired and is scheduled for deletion.');
+    }
+
+    if (stored) {
+      this.accounts.updateAccountToken(account.id, token);
+      this.accounts.addAuditLogEntry(account.id, 'ACCESSED', `Inbox restored: ${account.address}`);
+      console.log('✅ Inbox restored:', { accountId: account.id, expiresAt: stored.expiresAt });
+      return { account, password, token, createdAt: stored.createdAt, expiresAt: stored.expiresAt };
+    }
+
+    const createdAt = new Date();
+    const expiresAt = computeExpiresAt(lifetime ?? DEFAULT_INBOX_LIFETIME, createdAt);
+    this.accounts.storeAccount(account, password, token, expiresAt);
+    console.log('✅ Inbox restored:', { accountId: account.id, expiresAt });
+    return { account, password, token, createdAt, expiresAt };
+  }
+
+  /**
+   * Stored inboxes that have not been deleted, newest first
+   */
+  listInboxes({ includeExpired = false }: { includeExpired?: boolean } = {}): StoredAccount[] {
+    return this.accounts.getStoredAccounts()
+      .filter(account => !account.deleted && (includeExpired || !isExpired(account.expiresAt)))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * A stored inbox by account ID or address
+   */
+  getInbox(idOrAddress: string): StoredAccount | null {
+    const key = idOrAddress.trim().toLowerCase();
+    return this.accounts.getStoredAccounts()
+      .find(account => account.id === idOrAddress || account.address === key) ?? null;
+  }
+
+  /**
+   * Delete an inbox on the server and mark its record deleted
+   */
+  async deleteInbox(inbox: InboxRef, options: RequestOptions = {}): Promise<void> {
+    const { id } = this.resolve(inbox);
+    await this.session(inbox).deleteAccount(id, options);
+    this.accounts.markAccountDeleted(id);
+    console.log('🗑️ Inbox deleted:', id);
+  }
+
+  listMessages(inbox: InboxRef, page: number = 1): Promise<PaginatedCollection<MailMessage>> {
+    return this.session(inbox).getMessages(page);
+  }
+
+  getMessage(inbox: InboxRef, messageId: string): Promise<MailMessageDetail> {
+    return this.session(inbox).getMessage(messageId);
+  }
+
+  getMessageSource(inbox: InboxRef, messageId: string): Promise<MessageSource> {
+    return this.session(inbox).getMessageSource(messageId);
+  }
+
+  deleteMessage(inbox: InboxRef, messageId: string): Promise<void> {
+    return this.session(inbox).deleteMessage(messageId);
+  }
+
+  /**
+   * Wait for a matching message in an inbox, see `waitForMessage`
+   */
+  waitForMessage(inbox: InboxRef, options: Omit<WaitForMessageOptions, 'provider' | 'accountId'> = {}): Promise<MailMessageDetail> {
+    return waitForMessage({
+      ...options,
+      provider: this.session(inbox),
+      accountId: this.resolve(inbox).id,
+    });
+  }
+
+  /**
+   * One-time codes and verification links in a message, best first
+   */
+  extractVerifications(message: VerificationSource): VerificationCandidate[] {
+    return extractVerifications(message);
+  }
+
+  /**
+   * Provider bound to one inbox
+   */
+  session(inbox: InboxRef): MailProvider {
+    const { address, password, token } = this.resolve(inbox);
+    return this.getProvider().withSession({ token, address, password });
+  }
+
+  /**
+   * Fetch a token through a session of its own. The provider may be shared
+   * with an app whose active inbox must keep its token.
+   */
+  private async signIn(address: string, password: string): Promise<{ token: string; session: MailProvider }> {
+    const session = this.getProvider().withSession({ token: '', address, password });
+    const { token } = await session.getToken(address, password);
+    return { token, session };
+  }
+
+  private resolve(inbox: InboxRef): { id: string; address: string; password: string; token: string } {
+    if (typeof inbox !== 'string') {
+      return 'account' in inbox
+        ? { id: inbox.account.id, address: inbox.account.address, password: inbox.password, token: inbox.token }
+        : { id: inbox.id, address: inbox.address, password: inbox.password, token: inbox.token };
+    }
+
+    const stored = this.getInbox(inbox);
+    if (!stored) {
+      throw new Error(`Unknown inbox: ${inbox}`);
+    }
+    return { id: stored.id, address: stored.address, password: stored.password, token: stored.token };
+  }
+}
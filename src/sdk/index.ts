@@ -0,0 +1,23 @@
+export { TempBoxClient } from './client';
+export type { CreateInboxOptions, RestoreInboxOptions, TempBoxClientOptions, InboxRef } from './client';
+export { MemoryStorage, getDefaultStorage } from './storage';
+export type { KeyValueStorage } from './storage';
+export { waitForMessage, MessageWaitTimeoutError } from '../services/waitForMessage';
+export type { WaitForMessageOptions, MessageMatcher } from '../services/waitForMessage';
+export { extractVerifications, getBestVerification, isConfidentVerification } from '../utils/verificationExtractor';
+export type { VerificationCandidate, VerificationKind, VerificationSource } from '../utils/verificationExtractor';
+export { MailApiService } from '../services/mailApi';
+export type { MailProvider, MailSession } from '../services/mailProvider';
+export {
+  MailApiError,
+  NetworkError,
+  UnauthorizedError,
+  AccountGoneError,
+  RateLimitedError,
+  ValidationError,
+  ServerError,
+} from '../services/mailApiErrors';
+export type { StoredAccount } from '../services/storageService';
+export type { OpenInbox } from '../types/inbox';
+export type { MailAccount, MailMessage, MailMessageDetail, Domain, PaginatedCollection } from '../types/api';
+export type { InboxLifetime } from '../utils/lifetime';
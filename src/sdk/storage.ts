@@ -0,0 +1,35 @@
+/**
+ * Minimal key/value store the SDK persists to. `localStorage` satisfies it
+ * in browsers; Node callers pass their own or use MemoryStorage.
+ */
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * Storage that lives as long as the process, for tests and one-off scripts
+ */
+export class MemoryStorage implements KeyValueStorage {
+  private readonly items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * `localStorage` where there is one, otherwise a fresh MemoryStorage
+ */
+export function getDefaultStorage(): KeyValueStorage {
+  return typeof localStorage !== 'undefined' ? localStorage : new MemoryStorage();
+}
@@ -0,0 +1,356 @@
+import { MailAttachment, MailMessage, MailMessageDetail } from '../types/api';
+import type { MailProvider } from './mailProvider';
+import { peekMessage } from './peekMessage';
+
+export type ArchiveRetention = '1d' | '7d' | '30d' | 'forever';
+
+export interface ArchivePolicy {
+  /**
+   * Archive messages of this inbox as they arrive and are opened
+   */
+  keep: boolean;
+  retention: ArchiveRetention;
+}
+
+export const ARCHIVE_RETENTION_OPTIONS: { id: ArchiveRetention; label: string; durationMs: number | null }[] = [
+  { id: '1d', label: '1 day', durationMs: 24 * 60 * 60 * 1000 },
+  { id: '7d', label: '7 days', durationMs: 7 * 24 * 60 * 60 * 1000 },
+  { id: '30d', label: '30 days', durationMs: 30 * 24 * 60 * 60 * 1000 },
+  { id: 'forever', label: 'Until I delete it', durationMs: null },
+];
+
+export const DEFAULT_ARCHIVE_POLICY: ArchivePolicy = { keep: true, retention: '30d' };
+
+export interface ArchivedMessage {
+  id: string;
+  accountId: string;
+  archivedAt: number;
+  message: MailMessageDetail;
+}
+
+export interface ArchivedAttachment {
+  /**
+   * `<messageId>:<attachmentId>`
+   */
+  key: string;
+  accountId: string;
+  messageId: string;
+  attachmentId: string;
+  filename: string;
+  contentType: string;
+  archivedAt: number;
+  blob: Blob;
+}
+
+export interface ArchiveSummary {
+  accountId: string;
+  /**
+   * Recipient of the archived mail, for inboxes whose record is gone
+   */
+  address: string | null;
+  messageCount: number;
+  attachmentCount: number;
+  lastArchivedAt: Date | null;
+}
+
+const DB_NAME = 'tempbox-archive';
+const DB_VERSION = 1;
+const MESSAGES_STORE = 'messages';
+const ATTACHMENTS_STORE = 'attachments';
+const BY_ACCOUNT_INDEX = 'accountId';
+// Backfilled messages are loaded a few at a time with a pause in between
+const BACKFILL_BATCH_SIZE = 3;
+const BACKFILL_BATCH_DELAY_MS = 1000;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+function attachmentKey(messageId: string, attachmentId: string): string {
+  return `${messageId}:${attachmentId}`;
+}
+
+/**
+ * Copies of received messages and opened attachments in IndexedDB, so mail stays
+ * readable after its inbox expires or the browser goes offline. Every inbox
+ * has its own policy for whether and how long mail is kept.
+ */
+class ArchiveService {
+  private readonly POLICIES_KEY = 'tempbox-archive-policies';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  // One backfill at a time, so inboxes loading together don't pile up requests
+  private backfill: Promise<void> = Promise.resolve();
+
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  getPolicy(accountId: string): ArchivePolicy {
+    return { ...DEFAULT_ARCHIVE_POLICY, ...this.loadPolicies()[accountId] };
+  }
+
+  setPolicy(accountId: string, changes: Partial<ArchivePolicy>): ArchivePolicy {
+    const policy = { ...this.getPolicy(accountId), ...changes };
+    localStorage.setItem(this.POLICIES_KEY, JSON.stringify({ ...this.loadPolicies(), [accountId]: policy }));
+    console.log('🗄️ Archive policy updated:', { accountId, ...policy });
+    return policy;
+  }
+
+  /**
+   * Store a fetched message, unless its inbox opted out. Never throws;
+   * archiving must not get in the way of reading mail.
+   */
+  async archiveMessage(message: MailMessageDetail): Promise<void> {
+    if (!this.isSupported() || !message.accountId || !this.getPolicy(message.accountId).keep) return;
+
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(MESSAGES_STORE, 'readwrite');
+      const record: ArchivedMessage = {
+        id: message.id,
+        accountId: message.accountId,
+        archivedAt: Date.now(),
+        message,
+      };
+      transaction.objectStore(MESSAGES_STORE).put(record);
+      await transactionDone(transaction);
+    } catch (error) {
+      console.error('❌ Failed to archive message:', message.id, error);
+    }
+  }
+
+  /**
+   * Load and store listed messages that are not archived yet, so mail nobody
+   * opened is not lost when the inbox expires. Unread messages stay unread.
+   * Messages are loaded a few at a time, one inbox after another. Never throws.
+   */
+  archiveNewMessages(accountId: string, messages: MailMessage[], provider: MailProvider): Promise<void> {
+    if (!this.isSupported() || !this.getPolicy(accountId).keep || messages.length === 0) return Promise.resolve();
+
+    this.backfill = this.backfill.then(() => this.backfillMessages(accountId, messages, provider));
+    return this.backfill;
+  }
+
+  /**
+   * Store a downloaded attachment alongside its message. Never throws.
+   */
+  async archiveAttachment(accountId: string, messageId: string, attachment: MailAttachment, blob: Blob): Promise<void> {
+    if (!this.isSupported() || !this.getPolicy(accountId).keep) return;
+
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(ATTACHMENTS_STORE, 'readwrite');
+      const record: ArchivedAttachment = {
+        key: attachmentKey(messageId, attachment.id),
+        accountId,
+        messageId,
+        attachmentId: attachment.id,
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        archivedAt: Date.now(),
+        blob,
+      };
+      transaction.objectStore(ATTACHMENTS_STORE).put(record);
+      await transactionDone(transaction);
+      console.log('🗄️ Attachment archived:', attachment.filename);
+    } catch (error) {
+      console.error('❌ Failed to archive attachment:', attachment.filename, error);
+    }
+  }
+
+  /**
+   * Archived messages of an inbox, newest first
+   */
+  async getMessages(accountId: string): Promise<MailMessageDetail[]> {
+    const db = await this.open();
+    const records: ArchivedMessage[] = await promisify(
+      db.transaction(MESSAGES_STORE).objectStore(MESSAGES_STORE).index(BY_ACCOUNT_INDEX).getAll(accountId),
+    );
+    return records
+      .map(record => record.message)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async getAttachment(messageId: string, attachmentId: string): Promise<Blob | null> {
+    const db = await this.open();
+    const record: ArchivedAttachment | undefined = await promisify(
+      db.transaction(ATTACHMENTS_STORE).objectStore(ATTACHMENTS_STORE).get(attachmentKey(messageId, attachmentId)),
+    );
+    return record?.blob ?? null;
+  }
+
+  /**
+   * IDs of the attachments of a message that are archived
+   */
+  async getArchivedAttachmentIds(messageId: string): Promise<Set<string>> {
+    const db = await this.open();
+    const keys = await promisify(
+      db.transaction(ATTACHMENTS_STORE).objectStore(ATTACHMENTS_STORE)
+        .getAllKeys(IDBKeyRange.bound(`${messageId}:`, `${messageId}:\uffff`)),
+    );
+    return new Set(keys.map(key => String(key).slice(messageId.length + 1)));
+  }
+
+  /**
+   * Message and attachment counts per inbox
+   */
+  async getSummaries(): Promise<Record<string, ArchiveSummary>> {
+    const db = await this.open();
+    const summaries: Record<string, ArchiveSummary> = {};
+    const summaryFor = (accountId: string) => summaries[accountId] ??= {
+      accountId,
+      address: null,
+      messageCount: 0,
+      attachmentCount: 0,
+      lastArchivedAt: null,
+    };
+
+    await this.forEachRecord<ArchivedMessage | ArchivedAttachment>(db, [MESSAGES_STORE, ATTACHMENTS_STORE], 'readonly', (record) => {
+      const summary = summaryFor(record.accountId);
+      if ('message' in record) {
+        summary.messageCount++;
+        summary.address ??= record.message.to?.[0]?.address ?? null;
+      } else {
+        summary.attachmentCount++;
+      }
+      if (!summary.lastArchivedAt || record.archivedAt > summary.lastArchivedAt.getTime()) {
+        summary.lastArchivedAt = new Date(record.archivedAt);
+      }
+    });
+    return summaries;
+  }
+
+  /**
+   * Remove everything archived for an inbox
+   */
+  async deleteArchive(accountId: string): Promise<void> {
+    const db = await this.open();
+    await this.forEachRecord<ArchivedMessage | ArchivedAttachment>(db, [MESSAGES_STORE, ATTACHMENTS_STORE], 'readwrite', (record, cursor) => {
+      if (record.accountId === accountId) cursor.delete();
+    });
+    console.log('🗑️ Archive deleted:', accountId);
+  }
+
+  /**
+   * Remove messages and attachments older than their inbox's retention
+   */
+  async pruneExpired(now: number = Date.now()): Promise<number> {
+    if (!this.isSupported()) return 0;
+
+    const db = await this.open();
+    const cutoffs = new Map<string, number | null>();
+    const cutoffFor = (accountId: string) => {
+      if (!cutoffs.has(accountId)) {
+        const { durationMs } = ARCHIVE_RETENTION_OPTIONS.find(option => option.id === this.getPolicy(accountId).retention)
+          ?? ARCHIVE_RETENTION_OPTIONS[0];
+        cutoffs.set(accountId, durationMs === null ? null : now - durationMs);
+      }
+      return cutoffs.get(accountId)!;
+    };
+
+    let removed = 0;
+    await this.forEachRecord<ArchivedMessage | ArchivedAttachment>(db, [MESSAGES_STORE, ATTACHMENTS_STORE], 'readwrite', (record, cursor) => {
+      const cutoff = cutoffFor(record.accountId);
+      if (cutoff !== null && record.archivedAt < cutoff) {
+        cursor.delete();
+        removed++;
+      }
+    });
+
+    if (removed > 0) console.log('🧹 Pruned archived records:', removed);
+    return removed;
+  }
+
+  private async backfillMessages(accountId: string, messages: MailMessage[], provider: MailProvider): Promise<void> {
+    try {
+      // Read after earlier runs finished, so nothing they stored is loaded again
+      const db = await this.open();
+      const archivedIds = new Set(await promisify(
+        db.transaction(MESSAGES_STORE).objectStore(MESSAGES_STORE).index(BY_ACCOUNT_INDEX).getAllKeys(accountId),
+      ));
+      const pending = messages.filter(message => !archivedIds.has(message.id));
+
+      for (let i = 0; i < pending.length; i += BACKFILL_BATCH_SIZE) {
+        if (i > 0) {
+          await new Promise(resolve => setTimeout(resolve, BACKFILL_BATCH_DELAY_MS));
+          // Archiving may have been switched off meanwhile
+          if (!this.getPolicy(accountId).keep) return;
+        }
+
+        await Promise.all(pending.slice(i, i + BACKFILL_BATCH_SIZE).map(async message => {
+          try {
+            await this.archiveMessage(await peekMessage(provider, message));
+          } catch (error) {
+            console.error('❌ Failed to load message for archive:', message.id, error);
+          }
+        }));
+      }
+    } catch (error) {
+      console.error('❌ Failed to archive new messages:', accountId, error);
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.isSupported()) {
+      return Promise.reject(new Error('IndexedDB is not available in this browser'));
+    }
+
+    this.dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(MESSAGES_STORE, { keyPath: 'id' }).createIndex(BY_ACCOUNT_INDEX, 'accountId');
+        db.createObjectStore(ATTACHMENTS_STORE, { keyPath: 'key' }).createIndex(BY_ACCOUNT_INDEX, 'accountId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      // Let the next call try again, e.g. after a blocked upgrade
+      this.dbPromise = null;
+      throw error;
+    });
+    return this.dbPromise;
+  }
+
+  private async forEachRecord<T>(
+    db: IDBDatabase,
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    visit: (record: T, cursor: IDBCursorWithValue) => void,
+  ): Promise<void> {
+    const transaction = db.transaction(storeNames, mode);
+    for (const storeName of storeNames) {
+      const request = transaction.objectStore(storeName).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        visit(cursor.value as T, cursor);
+        cursor.continue();
+      };
+    }
+    await transactionDone(transaction);
+  }
+
+  private loadPolicies(): Record<string, ArchivePolicy> {
+    try {
+      const stored = localStorage.getItem(this.POLICIES_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Failed to parse archive policies:', error);
+      return {};
+    }
+  }
+}
+
+export const archiveService = new ArchiveService();
@@ -1,3 +1,5 @@
+import { generateId } from '../utils/credentials';
+
 export interface User {
   id: string;
   email: string;
@@ -113,7 +115,7 @@ class AuthService {
     }
     
     const user: User = {
-      id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: generateId('user'),
       email: email.toLowerCase(),
       role,
       permissions,
@@ -143,7 +145,7 @@ class AuthService {
     }
     
     const user: User = {
-      id: `admin_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: generateId('admin'),
       email: 'admin@tempbox.local',
       role: 'admin',
       permissions: [
@@ -197,7 +199,7 @@ class AuthService {
    */
   grantTempAdminAccess(): User {
     const user: User = {
-      id: `temp_admin_${Date.now()}`,
+      id: generateId('temp_admin'),
       email: 'temp@admin.local',
       role: 'admin',
       permissions: [
@@ -1,5 +1,8 @@
-import { mailApi } from './mailApi';
+import { tempBox } from './tempBox';
 import { storageService, StoredAccount } from './storageService';
+import { archiveService } from './archiveService';
+import { tabSyncService } from './tabSync';
+import { formatTimeLeft } from '../utils/lifetime';
 import toast from 'react-hot-toast';
 
 export interface CleanupOptions {
@@ -41,15 +44,16 @@ class CleanupService {
     }
 
     console.log('🔄 Starting automated cleanup service');
+    tabSyncService.start();
     
     // Run cleanup every 60 minutes
     this.cleanupIntervalId = setInterval(() => {
-      this.runCleanupCycle();
+      this.runScheduledCycle();
     }, 60 * 60 * 1000);
 
     // Run initial cleanup after 5 seconds
     setTimeout(() => {
-      this.runCleanupCycle();
+      this.runScheduledCycle();
     }, 5000);
   }
 
@@ -64,6 +68,18 @@ class CleanupService {
     }
   }
 
+  /**
+   * Scheduled cycles only run in the leader tab so open tabs don't race
+   * each other deleting the same accounts
+   */
+  private runScheduledCycle(): void {
+    if (!tabSyncService.getState().isLeader) {
+      console.log('⏭️ Not the leader tab, leaving cleanup to the leader');
+      return;
+    }
+    this.runCleanupCycle();
+  }
+
   /**
    * Run a complete cleanup cycle
    */
@@ -86,6 +102,7 @@ class CleanupService {
       
       // Clean up old storage data first
       storageService.cleanupOldData();
+      archiveService.pruneExpired().catch(error => console.error('❌ Failed to prune archive:', error));
       
       // Get expired accounts
       const expiredAccounts = storageService.getExpiredAccounts();
@@ -218,11 +235,11 @@ class CleanupService {
       try {
         console.log(`🗑️ Attempting to delete account ${account.address} (attempt ${attempt}/${options.maxRetries})`);
         
-        // Set the token for this account
-        mailApi.setToken(account.token);
+        // Use a session for this account so the active inbox keeps its token
+        const session = tempBox.session(account);
         
         // Attempt to delete the account
-        await mailApi.deleteAccount(account.id);
+        await session.deleteAccount(account.id, { priority: 'background' });
         
         console.log(`✅ Successfully deleted account ${account.address}`);
         return { success: true, error: '' };
@@ -300,22 +317,22 @@ class CleanupService {
   checkAndShowWarnings(): void {
     const warnings = storageService.getExpirationWarnings();
     
-    // Show critical warnings (less than 30 minutes)
+    // Show critical warnings (last fifth of the lifetime)
     if (warnings.critical.length > 0) {
       warnings.critical.forEach(account => {
-        const timeLeft = Math.floor((account.expiresAt.getTime() - new Date().getTime()) / 1000 / 60);
-        toast.error(`Inbox ${account.address} expires in ${timeLeft} minutes!`, {
+        const timeLeft = formatTimeLeft(account.expiresAt!.getTime() - Date.now());
+        toast.error(`Inbox ${account.address} expires in ${timeLeft}!`, {
           icon: '⚠️',
           duration: 8000,
         });
       });
     }
     
-    // Show warning notifications (less than 1 hour)
+    // Show warning notifications (last half of the lifetime)
     if (warnings.warning.length > 0) {
       warnings.warning.forEach(account => {
-        const timeLeft = Math.floor((account.expiresAt.getTime() - new Date().getTime()) / 1000 / 60);
-        toast(`Inbox ${account.address} expires in ${timeLeft} minutes`, {
+        const timeLeft = formatTimeLeft(account.expiresAt!.getTime() - Date.now());
+        toast(`Inbox ${account.address} expires in ${timeLeft}`, {
           icon: '⏰',
           duration: 4000,
         });
@@ -324,7 +341,8 @@ class CleanupService {
   }
 
   /**
-   * Extend account expiration time (if supported by the service)
+   * Extend account expiration time. mail.tm has no server-side expiry,
+   * so this only moves the point at which cleanup deletes the account.
    */
   async extendAccountExpiration(accountId: string, additionalHours: number = 1): Promise<boolean> {
     const account = storageService.getStoredAccount(accountId);
@@ -333,37 +351,17 @@ class CleanupService {
       return false;
     }
 
-    try {
-      // Note: mail.tm doesn't support extending account expiration
-      // This is a placeholder for future enhancement or different providers
-      console.log(`🔄 Extension requested for account ${account.address} (${additionalHours} hours)`);
-      
-      // For now, we'll just extend the local expiration time
-      const accounts = storageService.getStoredAccounts();
-      const accountIndex = accounts.findIndex(a => a.id === accountId);
-      
-      if (accountIndex !== -1) {
-        const newExpirationTime = new Date(account.expiresAt.getTime() + (additionalHours * 60 * 60 * 1000));
-        accounts[accountIndex].expiresAt = newExpirationTime;
-        
-        // Save updated accounts (this would need to be implemented in storageService)
-        // storageService.saveAccounts(accounts);
-        
-        toast.success(`Account expiration extended by ${additionalHours} hour(s)`, {
-          icon: '🕐',
-        });
-        
-        return true;
-      }
-      
-      return false;
-    } catch (error) {
-      console.error('Failed to extend account expiration:', error);
-      toast.error('Failed to extend account expiration', {
-        icon: '❌',
-      });
+    console.log(`🔄 Extension requested for account ${account.address} (${additionalHours} hours)`);
+    const extended = storageService.extendAccountExpiration(accountId, additionalHours * 60 * 60 * 1000);
+    if (!extended) {
+      console.log(`⏭️ Account ${account.address} cannot be extended`);
       return false;
     }
+
+    toast.success(`Account expiration extended by ${additionalHours} hour(s)`, {
+      icon: '🕐',
+    });
+    return true;
   }
 
   private delay(ms: number): Promise<void> {
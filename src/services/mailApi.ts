@@ -1,8 +1,26 @@
-import { MailAccount, MailMessage, MailMessageDetail, AuthToken, Domain } from '../types/api';
+import { MailAccount, MailMessage, MailMessageDetail, MessageSource, AuthToken, Domain, PaginatedCollection } from '../types/api';
+import type { MailProvider, MailSession, RequestOptions, TokenRefreshEvent } from './mailProvider';
+import { AccountGoneError, NetworkError, RateLimitedError, UnauthorizedError, createErrorFromResponse } from './mailApiErrors';
+import { requestScheduler, RequestPriority } from './requestScheduler';
 
 const API_BASE = 'https://api.mail.tm';
+const MAX_RATE_LIMIT_RETRIES = 2;
+const DEFAULT_RATE_LIMIT_PAUSE = 1000;
+// import.meta.env only exists in Vite builds, the SDK also runs in plain Node
+const MERCURE_BASE = import.meta.env?.VITE_MERCURE_URL || 'https://mercure.mail.tm/.well-known/mercure';
 
-interface RawMailMessage {
+type ApiRequestInit = Omit<RequestInit, 'priority'> & { auth?: boolean; priority?: RequestPriority };
+
+/**
+ * Resolve a request path against the API root. Only requests to the API
+ * itself may carry the account token, absolute URLs elsewhere never do.
+ */
+function resolveRequestUrl(path: string, wantsAuth: boolean): { url: string; auth: boolean } {
+  const url = new URL(path, API_BASE);
+  return { url: url.toString(), auth: wantsAuth && url.origin === new URL(API_BASE).origin };
+}
+
+export interface RawMailMessage {
   id?: string;
   _id?: string;
   msgid?: string;
@@ -29,17 +47,167 @@ interface RawMailMessage {
   updated_at?: string;
 }
 
-class MailApiService {
+/**
+ * Account ID without the `/accounts/` prefix the API sends it with
+ */
+function normalizeAccountId(accountId: string | undefined): string {
+  return (accountId ?? '').replace(/^\/accounts\//, '');
+}
+
+/**
+ * Normalize a raw message payload (REST or Mercure) into a MailMessage
+ */
+export function normalizeMessage(msg: RawMailMessage, index: number = 0): MailMessage {
+  const accountId = normalizeAccountId(msg.accountId || msg.account_id);
+
+  return {
+    id: msg.id || msg._id || `msg-${index}`,
+    accountId: accountId,
+    msgid: msg.msgid || msg.id || msg._id || `msgid-${index}`,
+    from: {
+      address: msg.from?.address || 'unknown@example.com',
+      name: msg.from?.name || ''
+    },
+    to: Array.isArray(msg.to) ? msg.to : [],
+    subject: msg.subject || '(No subject)',
+    intro: msg.intro || '',
+    seen: Boolean(msg.seen),
+    isDeleted: Boolean(msg.isDeleted),
+    hasAttachments: Boolean(msg.hasAttachments),
+    size: Number(msg.size) || 0,
+    downloadUrl: msg.downloadUrl || '',
+    createdAt: msg.createdAt || msg.created_at || new Date().toISOString(),
+    updatedAt: msg.updatedAt || msg.updated_at || new Date().toISOString(),
+  };
+}
+
+export class MailApiService implements MailProvider {
+  readonly id = 'mail.tm';
   private token: string | null = null;
+  private credentials: { address: string; password: string } | null = null;
+  private reauthPromise: Promise<void> | null = null;
+  private tokenRefreshListeners = new Set<(event: TokenRefreshEvent) => void>();
 
-  async getDomains(): Promise<Domain[]> {
-    console.log('🌐 Fetching domains...');
-    const response = await fetch(`${API_BASE}/domains`);
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ Failed to fetch domains:', errorText);
-      throw new Error('Failed to fetch domains');
+  /**
+   * Perform a request, re-authenticating once with the stored credentials
+   * when the token has expired or been rejected
+   */
+  private async request(
+    path: string,
+    init: ApiRequestInit,
+    fallbackMessage: string
+  ): Promise<Response> {
+    try {
+      return await this.send(path, init, fallbackMessage);
+    } catch (error) {
+      const canReauthenticate = resolveRequestUrl(path, init.auth !== false).auth && !!this.credentials;
+      if (!(error instanceof UnauthorizedError) || !canReauthenticate) {
+        throw error;
+      }
+
+      console.log('🔑 Token rejected, re-authenticating with stored credentials');
+      try {
+        await this.reauthenticate();
+      } catch (reauthError) {
+        console.error('❌ Re-authentication failed:', reauthError);
+        throw reauthError instanceof AccountGoneError ? reauthError : error;
+      }
+
+      return this.send(path, init, fallbackMessage);
     }
+  }
+
+  /**
+   * Fetch a fresh token for the stored credentials. Concurrent callers
+   * share the same in-flight token request.
+   */
+  private reauthenticate(): Promise<void> {
+    if (!this.reauthPromise) {
+      const { address, password } = this.credentials!;
+      this.reauthPromise = this.getToken(address, password)
+        .then(({ token }) => {
+          console.log('✅ Token refreshed for:', address);
+          this.tokenRefreshListeners.forEach(listener => listener({ address, token }));
+        })
+        .finally(() => {
+          this.reauthPromise = null;
+        });
+    }
+    return this.reauthPromise;
+  }
+
+  /**
+   * Perform a request against the API through the shared scheduler,
+   * translating transport and HTTP failures into MailApiError subclasses.
+   * 429 responses pause the scheduler for Retry-After and are retried.
+   */
+  private async send(
+    path: string,
+    init: ApiRequestInit,
+    fallbackMessage: string
+  ): Promise<Response> {
+    const { auth: wantsAuth = true, priority = 'interactive', headers, ...rest } = init;
+
+    const { url, auth } = resolveRequestUrl(path, wantsAuth);
+    if (wantsAuth && !auth) {
+      console.warn('⚠️ Sending request without credentials to foreign origin:', url);
+    }
+
+    if (auth && !this.token) {
+      throw new UnauthorizedError('Not authenticated');
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await requestScheduler.schedule(async () => {
+          let response: Response;
+          try {
+            response = await fetch(url, {
+              ...rest,
+              headers: {
+                ...(auth ? { 'Authorization': `Bearer ${this.token}` } : {}),
+                ...headers,
+              },
+            });
+          } catch (error) {
+            console.error('❌ Network request failed:', url, error);
+            throw new NetworkError(fallbackMessage, { cause: error });
+          }
+
+          if (!response.ok) {
+            const error = await createErrorFromResponse(response, fallbackMessage);
+            console.error(`❌ ${fallbackMessage}:`, error.status, error.message);
+
+            if (error instanceof RateLimitedError) {
+              requestScheduler.pause(error.retryAfterMs ?? DEFAULT_RATE_LIMIT_PAUSE);
+            }
+
+            if (auth && error instanceof AccountGoneError) {
+              console.log('🔑 Account no longer exists, clearing token');
+              this.clearToken();
+            }
+
+            throw error;
+          }
+
+          return response;
+        }, priority);
+      } catch (error) {
+        if (error instanceof RateLimitedError && attempt < MAX_RATE_LIMIT_RETRIES) {
+          console.log(`🔄 Retrying rate limited request (attempt ${attempt + 2}):`, url);
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  async getDomains(options: RequestOptions = {}): Promise<Domain[]> {
+    console.log('🌐 Fetching domains...');
+    const response = await this.request('/domains', {
+      auth: false,
+      priority: options.priority ?? 'background',
+    }, 'Failed to fetch domains');
     const data = await response.json();
     const domains = data['hydra:member'] || [];
     console.log('✅ Domains fetched:', domains.length);
@@ -48,19 +216,14 @@ class MailApiService {
 
   async createAccount(address: string, password: string): Promise<MailAccount> {
     console.log('👤 Creating account:', { address });
-    const response = await fetch(`${API_BASE}/accounts`, {
+    const response = await this.request('/accounts', {
+      auth: false,
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({ address, password }),
-    });
-    
-    if (!response.ok) {
-      const error = await response.json();
-      console.error('❌ Account creation failed:', error);
-      throw new Error(error['hydra:description'] || error.message || 'Failed to create account');
-    }
+    }, 'Failed to create account');
     
     const account = await response.json();
     console.log('✅ Account created successfully:', account);
@@ -69,19 +232,14 @@ class MailApiService {
 
   async getToken(address: string, password: string): Promise<AuthToken> {
     console.log('🔑 Getting token for:', { address });
-    const response = await fetch(`${API_BASE}/token`, {
+    const response = await this.request('/token', {
+      auth: false,
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({ address, password }),
-    });
-    
-    if (!response.ok) {
-      const error = await response.json();
-      console.error('❌ Token fetch failed:', error);
-      throw new Error(error['hydra:description'] || error.message || 'Failed to authenticate');
-    }
+    }, 'Failed to authenticate');
     
     const tokenData = await response.json();
     this.token = tokenData.token;
@@ -90,78 +248,52 @@ class MailApiService {
   }
 
   async getAccount(): Promise<MailAccount> {
-    if (!this.token) throw new Error('Not authenticated');
-    
     console.log('👤 Fetching account details');
-    const response = await fetch(`${API_BASE}/me`, {
+    const response = await this.request('/me', {
       headers: {
-        'Authorization': `Bearer ${this.token}`,
         'Accept': 'application/json',
       },
-    });
-    
-    if (!response.ok) {
-      const error = await response.json();
-      console.error('❌ Account fetch failed:', error);
-      throw new Error(error['hydra:description'] || error.message || 'Failed to fetch account');
-    }
+    }, 'Failed to fetch account');
 
     const account = await response.json();
     console.log('✅ Account details fetched:', account);
     return account;
   }
 
-  async getMessages(page: number = 1, itemsPerPage: number = 50): Promise<MailMessage[]> {
-    if (!this.token) {
-      console.error('❌ No token available for messages fetch');
-      throw new Error('Not authenticated');
-    }
-    
-    console.log('📨 Fetching messages...', { page, itemsPerPage, token: this.token.substring(0, 10) + '...' });
+  async getMessages(
+    page: number = 1,
+    itemsPerPage: number = 30,
+    options: RequestOptions = {}
+  ): Promise<PaginatedCollection<MailMessage>> {
+    console.log('📨 Fetching messages...', { page, itemsPerPage, token: this.token ? this.token.substring(0, 10) + '...' : null });
     
-    const url = `${API_BASE}/messages?page=${page}&itemsPerPage=${itemsPerPage}`;
-    console.log('🔗 Request URL:', url);
+    const path = `/messages?page=${page}&itemsPerPage=${itemsPerPage}`;
+    console.log('🔗 Request URL:', `${API_BASE}${path}`);
     
-    const response = await fetch(url, {
+    const response = await this.request(path, {
+      priority: options.priority,
       headers: {
-        'Authorization': `Bearer ${this.token}`,
         'Accept': 'application/json',
       },
-    });
+    }, 'Failed to fetch messages');
     
     console.log('📡 Response status:', response.status, response.statusText);
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ Failed to fetch messages - Response:', errorText);
-      
-      let error;
-      try {
-        error = JSON.parse(errorText);
-      } catch {
-        error = { message: errorText };
-      }
-      
-      // Handle account no longer exists error
-      if (response.status === 401 && error.message === 'This account no longer exists.') {
-        console.log('🔑 Account no longer exists, clearing token');
-        this.clearToken();
-      }
-      
-      throw new Error(error['hydra:description'] || error.message || 'Failed to fetch messages');
-    }
 
     const data = await response.json();
     console.log('📊 Raw messages response:', data);
 
     // Handle both array response and hydra response
     let rawMessages;
+    let totalItems: number | null = null;
+    let nextPageUrl: string | null = null;
     if (Array.isArray(data)) {
       console.log('📊 Response is direct array');
       rawMessages = data;
     } else if (data['hydra:member'] && Array.isArray(data['hydra:member'])) {
       console.log('📊 Response has hydra:member array');
       rawMessages = data['hydra:member'];
+      totalItems = typeof data['hydra:totalItems'] === 'number' ? data['hydra:totalItems'] : null;
+      nextPageUrl = data['hydra:view']?.['hydra:next'] || null;
     } else {
       console.warn('⚠️ Unexpected response structure:', data);
       rawMessages = [];
@@ -172,141 +304,145 @@ class MailApiService {
     // Process and normalize the messages
     const messages = rawMessages.map((msg: RawMailMessage, index: number) => {
       console.log(`📧 Processing message ${index + 1}:`, msg);
-      
-      // Handle accountId with potential leading slash
-      let accountId = msg.accountId || msg.account_id || '';
-      if (accountId.startsWith('/accounts/')) {
-        accountId = accountId.replace('/accounts/', '');
-      }
-      
-      const processedMessage = {
-        id: msg.id || msg._id || `msg-${index}`,
-        accountId: accountId,
-        msgid: msg.msgid || msg.id || msg._id || `msgid-${index}`,
-        from: {
-          address: msg.from?.address || 'unknown@example.com',
-          name: msg.from?.name || ''
-        },
-        to: Array.isArray(msg.to) ? msg.to : [],
-        subject: msg.subject || '(No subject)',
-        intro: msg.intro || '',
-        seen: Boolean(msg.seen),
-        isDeleted: Boolean(msg.isDeleted),
-        hasAttachments: Boolean(msg.hasAttachments),
-        size: Number(msg.size) || 0,
-        downloadUrl: msg.downloadUrl || '',
-        createdAt: msg.createdAt || msg.created_at || new Date().toISOString(),
-        updatedAt: msg.updatedAt || msg.updated_at || new Date().toISOString(),
-      };
-      
+      const processedMessage = normalizeMessage(msg, index);
       console.log(`✅ Processed message ${index + 1}:`, processedMessage);
       return processedMessage;
     });
 
     console.log('✅ Final processed messages:', messages);
     console.log('📊 Returning', messages.length, 'messages');
-    
-    return messages;
+
+    const total = totalItems ?? (page - 1) * itemsPerPage + messages.length;
+    let nextPage: number | null = null;
+    if (nextPageUrl) {
+      const parsed = Number(new URL(nextPageUrl, API_BASE).searchParams.get('page'));
+      nextPage = Number.isFinite(parsed) && parsed > page ? parsed : page + 1;
+    } else if (messages.length > 0 && (page - 1) * itemsPerPage + messages.length < total) {
+      nextPage = page + 1;
+    }
+
+    return {
+      items: messages,
+      totalItems: total,
+      page,
+      itemsPerPage,
+      nextPage,
+    };
   }
 
-  async getMessage(messageId: string): Promise<MailMessageDetail> {
-    if (!this.token) throw new Error('Not authenticated');
-    
+  async getMessage(messageId: string, options: RequestOptions = {}): Promise<MailMessageDetail> {
     console.log('📧 Fetching message details:', messageId);
-    const response = await fetch(`${API_BASE}/messages/${messageId}`, {
+    const response = await this.request(`/messages/${messageId}`, {
+      priority: options.priority,
       headers: {
-        'Authorization': `Bearer ${this.token}`,
         'Accept': 'application/json',
       },
-    });
-    
-    if (!response.ok) {
-      const error = await response.json();
-      console.error('❌ Failed to fetch message:', error);
-      throw new Error(error.message || 'Failed to fetch message');
-    }
+    }, 'Failed to fetch message');
 
     const message = await response.json();
     console.log('✅ Message details fetched:', message);
-    return message;
+    return {
+      ...message,
+      accountId: normalizeAccountId(message.accountId),
+      attachments: Array.isArray(message.attachments) ? message.attachments : [],
+    };
+  }
+
+  async getMessageSource(messageId: string, options: RequestOptions = {}): Promise<MessageSource> {
+    console.log('📜 Fetching message source:', messageId);
+    const response = await this.request(`/sources/${messageId}`, {
+      priority: options.priority,
+      headers: {
+        'Accept': 'application/json',
+      },
+    }, 'Failed to fetch message source');
+
+    const source = await response.json();
+    console.log('✅ Message source fetched:', source.data?.length || 0, 'chars');
+    return {
+      id: source.id,
+      downloadUrl: source.downloadUrl || '',
+      data: source.data || '',
+    };
+  }
+
+  async getAttachment(downloadUrl: string): Promise<Blob> {
+    // mail.tm returns attachment URLs relative to the API root
+    console.log('📎 Downloading attachment:', downloadUrl);
+    const response = await this.request(downloadUrl, {}, 'Failed to download attachment');
+
+    const blob = await response.blob();
+    console.log('✅ Attachment downloaded:', blob.size, 'bytes');
+    return blob;
   }
 
   async markMessageAsRead(messageId: string): Promise<void> {
-    if (!this.token) throw new Error('Not authenticated');
-    
     console.log('👁️ Marking message as read:', messageId);
-    const response = await fetch(`${API_BASE}/messages/${messageId}`, {
+    await this.request(`/messages/${messageId}`, {
       method: 'PATCH',
       headers: {
-        'Authorization': `Bearer ${this.token}`,
         'Content-Type': 'application/merge-patch+json',
         'Accept': 'application/json',
       },
       body: JSON.stringify({ seen: true }),
-    });
-    
-    if (!response.ok) {
-      const error = await response.json();
-      console.error('❌ Failed to mark message as read:', error);
-      throw new Error(error.message || 'Failed to mark message as read');
-    }
+    }, 'Failed to mark message as read');
     
     console.log('✅ Message marked as read');
   }
 
+  async markMessageAsUnread(messageId: string, options: RequestOptions = {}): Promise<void> {
+    console.log('👁️ Marking message as unread:', messageId);
+    await this.request(`/messages/${messageId}`, {
+      method: 'PATCH',
+      priority: options.priority,
+      headers: {
+        'Content-Type': 'application/merge-patch+json',
+        'Accept': 'application/json',
+      },
+      body: JSON.stringify({ seen: false }),
+    }, 'Failed to mark message as unread');
+
+    console.log('✅ Message marked as unread');
+  }
+
   async deleteMessage(messageId: string): Promise<void> {
-    if (!this.token) throw new Error('Not authenticated');
-    
     console.log('🗑️ Deleting message:', messageId);
-    const response = await fetch(`${API_BASE}/messages/${messageId}`, {
+    await this.request(`/messages/${messageId}`, {
       method: 'DELETE',
-      headers: {
-        'Authorization': `Bearer ${this.token}`,
-      },
-    });
-    
-    if (!response.ok) {
-      console.error('❌ Failed to delete message');
-      throw new Error('Failed to delete message');
-    }
+    }, 'Failed to delete message');
     
     console.log('✅ Message deleted successfully');
   }
 
-  async deleteAccount(accountId: string): Promise<void> {
-    if (!this.token) throw new Error('Not authenticated');
-    
+  async deleteAccount(accountId: string, options: RequestOptions = {}): Promise<void> {
     console.log('🗑️ Deleting account:', accountId);
-    const response = await fetch(`${API_BASE}/accounts/${accountId}`, {
-      method: 'DELETE',
-      headers: {
-        'Authorization': `Bearer ${this.token}`,
-      },
-    });
-    
-    if (!response.ok) {
-      // Handle account no longer exists error - treat as success since account is already gone
-      if (response.status === 401) {
-        try {
-          const errorText = await response.text();
-          const error = JSON.parse(errorText);
-          if (error.message === 'This account no longer exists.') {
-            console.log('✅ Account already deleted on server, clearing token');
-            this.clearToken();
-            return; // Treat as successful deletion
-          }
-        } catch {
-          // If we can't parse the error, fall through to original error handling
-        }
+    try {
+      await this.request(`/accounts/${accountId}`, {
+        method: 'DELETE',
+        priority: options.priority,
+      }, 'Failed to delete account');
+    } catch (error) {
+      // Account is already gone on the server - treat as a successful deletion
+      if (error instanceof AccountGoneError) {
+        console.log('✅ Account already deleted on server');
+        return;
       }
-      
-      console.error('❌ Failed to delete account');
-      throw new Error('Failed to delete account');
+      throw error;
     }
     
     console.log('✅ Account deleted successfully');
   }
 
+  getMessageStreamUrl(accountId: string): string | null {
+    if (!this.token) return null;
+
+    const url = new URL(MERCURE_BASE);
+    url.searchParams.set('topic', `/accounts/${accountId}`);
+    // EventSource cannot send headers, Mercure accepts the JWT as a query parameter instead
+    url.searchParams.set('authorization', this.token);
+    return url.toString();
+  }
+
   setToken(token: string) {
     console.log('🔑 Setting token:', token.substring(0, 10) + '...');
     this.token = token;
@@ -315,6 +451,26 @@ class MailApiService {
   clearToken() {
     console.log('🔑 Clearing token');
     this.token = null;
+    this.credentials = null;
+  }
+
+  setCredentials(address: string, password: string) {
+    this.credentials = { address, password };
+  }
+
+  onTokenRefresh(listener: (event: TokenRefreshEvent) => void): () => void {
+    this.tokenRefreshListeners.add(listener);
+    return () => {
+      this.tokenRefreshListeners.delete(listener);
+    };
+  }
+
+  withSession({ token, address, password }: MailSession): MailApiService {
+    const session = new MailApiService();
+    session.tokenRefreshListeners = this.tokenRefreshListeners;
+    session.setToken(token);
+    session.setCredentials(address, password);
+    return session;
   }
 
   // Debug method to check current state
@@ -322,8 +478,7 @@ class MailApiService {
     return {
       hasToken: !!this.token,
       tokenPreview: this.token ? this.token.substring(0, 10) + '...' : null,
+      canReauthenticate: !!this.credentials,
     };
   }
 }
-
-export const mailApi = new MailApiService();
\ No newline at end of file
@@ -0,0 +1,206 @@
+export const ACCOUNT_GONE_MESSAGE = 'This account no longer exists.';
+
+export type MailApiErrorKind =
+  | 'network'
+  | 'unauthorized'
+  | 'account-gone'
+  | 'rate-limited'
+  | 'validation'
+  | 'server'
+  | 'unknown';
+
+interface MailApiErrorDetails {
+  status?: number | null;
+  description?: string | null;
+  retryAfterMs?: number | null;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every failure coming out of a mail provider
+ */
+export class MailApiError extends Error {
+  readonly kind: MailApiErrorKind = 'unknown';
+  readonly status: number | null;
+  readonly description: string | null;
+  readonly retryAfterMs: number | null;
+  readonly cause: unknown;
+
+  constructor(message: string, details: MailApiErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status ?? null;
+    this.description = details.description ?? null;
+    this.retryAfterMs = details.retryAfterMs ?? null;
+    this.cause = details.cause;
+  }
+
+  /**
+   * Whether repeating the same request can reasonably succeed
+   */
+  get isRetryable(): boolean {
+    return false;
+  }
+}
+
+export class NetworkError extends MailApiError {
+  readonly kind = 'network';
+
+  get isRetryable(): boolean {
+    return true;
+  }
+}
+
+export class UnauthorizedError extends MailApiError {
+  readonly kind = 'unauthorized';
+}
+
+export class AccountGoneError extends MailApiError {
+  readonly kind = 'account-gone';
+}
+
+export class RateLimitedError extends MailApiError {
+  readonly kind = 'rate-limited';
+
+  get isRetryable(): boolean {
+    return true;
+  }
+}
+
+export class ValidationError extends MailApiError {
+  readonly kind = 'validation';
+  readonly violations: Array<{ propertyPath: string; message: string }>;
+
+  constructor(
+    message: string,
+    details: MailApiErrorDetails & { violations?: Array<{ propertyPath: string; message: string }> } = {}
+  ) {
+    super(message, details);
+    this.violations = details.violations ?? [];
+  }
+}
+
+export class ServerError extends MailApiError {
+  readonly kind = 'server';
+
+  get isRetryable(): boolean {
+    return true;
+  }
+}
+
+interface HydraErrorBody {
+  message?: string;
+  detail?: string;
+  'hydra:description'?: string;
+  violations?: Array<{ propertyPath: string; message: string }>;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Turn a failed response into the matching MailApiError subclass
+ */
+export async function createErrorFromResponse(response: Response, fallbackMessage: string): Promise<MailApiError> {
+  const text = await response.text().catch(() => '');
+
+  let body: HydraErrorBody = {};
+  try {
+    body = text ? JSON.parse(text) : {};
+  } catch {
+    body = { message: text };
+  }
+
+  const description = body['hydra:description'] || body.detail || null;
+  const message = description || body.message || fallbackMessage;
+  const details = {
+    status: response.status,
+    description,
+    retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+  };
+
+  if (response.status === 401 && body.message === ACCOUNT_GONE_MESSAGE) {
+    return new AccountGoneError(ACCOUNT_GONE_MESSAGE, details);
+  }
+  if (response.status === 401 || response.status === 403) {
+    return new UnauthorizedError(message, details);
+  }
+  if (response.status === 429) {
+    return new RateLimitedError(body.message || 'Too many requests', details);
+  }
+  if (response.status === 400 || response.status === 422) {
+    return new ValidationError(message, { ...details, violations: body.violations });
+  }
+  if (response.status >= 500) {
+    return new ServerError(message, details);
+  }
+  return new MailApiError(message, details);
+}
+
+export interface ErrorRecovery {
+  title: string;
+  hint: string;
+  action: 'retry' | 'new-inbox' | 'restore' | 'wait';
+}
+
+/**
+ * Describe what the user can do about an error
+ */
+export function getErrorRecovery(error: unknown): ErrorRecovery {
+  if (error instanceof AccountGoneError) {
+    return {
+      title: 'Inbox no longer exists',
+      hint: 'This address was removed by the mail server. Create a new inbox to continue.',
+      action: 'new-inbox',
+    };
+  }
+  // The saved password was already tried once, but the address may still be needed
+  if (error instanceof UnauthorizedError) {
+    return {
+      title: 'Session expired',
+      hint: 'The mail server rejected the saved sign-in. Restore the inbox with its password, or start a new one.',
+      action: 'restore',
+    };
+  }
+  if (error instanceof RateLimitedError) {
+    const seconds = error.retryAfterMs ? Math.ceil(error.retryAfterMs / 1000) : null;
+    return {
+      title: 'Too many requests',
+      hint: seconds
+        ? `The mail server is throttling requests. Retrying in ${seconds}s.`
+        : 'The mail server is throttling requests. Retrying shortly.',
+      action: 'wait',
+    };
+  }
+  if (error instanceof NetworkError) {
+    return {
+      title: 'Connection problem',
+      hint: 'Could not reach the mail server. Check your connection and try again.',
+      action: 'retry',
+    };
+  }
+  if (error instanceof ServerError) {
+    return {
+      title: 'Mail server error',
+      hint: 'The mail server is having trouble right now. Try again in a moment.',
+      action: 'retry',
+    };
+  }
+  return {
+    title: 'Failed to load messages',
+    hint: error instanceof Error ? error.message : 'Unknown error occurred',
+    action: 'retry',
+  };
+}
@@ -0,0 +1,121 @@
+import { MailAccount, MailMessage, MailMessageDetail, MessageSource, AuthToken, Domain, PaginatedCollection } from '../types/api';
+import { MailApiService } from './mailApi';
+import type { RequestPriority } from './requestScheduler';
+
+export interface RequestOptions {
+  /**
+   * Background requests (polling, cleanup) yield to interactive ones
+   */
+  priority?: RequestPriority;
+}
+
+export interface TokenRefreshEvent {
+  address: string;
+  token: string;
+}
+
+export interface MailSession {
+  token: string;
+  address: string;
+  password: string;
+}
+
+/**
+ * Contract every temporary mail backend has to fulfil so the hooks and
+ * services can stay provider agnostic.
+ */
+export interface MailProvider {
+  readonly id: string;
+
+  getDomains(options?: RequestOptions): Promise<Domain[]>;
+  createAccount(address: string, password: string): Promise<MailAccount>;
+  getToken(address: string, password: string): Promise<AuthToken>;
+  getAccount(): Promise<MailAccount>;
+  getMessages(page?: number, itemsPerPage?: number, options?: RequestOptions): Promise<PaginatedCollection<MailMessage>>;
+  getMessage(messageId: string, options?: RequestOptions): Promise<MailMessageDetail>;
+  getMessageSource(messageId: string, options?: RequestOptions): Promise<MessageSource>;
+  getAttachment(downloadUrl: string): Promise<Blob>;
+  markMessageAsRead(messageId: string): Promise<void>;
+  markMessageAsUnread(messageId: string, options?: RequestOptions): Promise<void>;
+  deleteMessage(messageId: string): Promise<void>;
+  deleteAccount(accountId: string, options?: RequestOptions): Promise<void>;
+
+  /**
+   * Server-sent events endpoint for account updates, if the provider has one
+   */
+  getMessageStreamUrl?(accountId: string): string | null;
+
+  setToken(token: string): void;
+  clearToken(): void;
+
+  /**
+   * Remember the account password so an expired token can be renewed
+   * transparently. Cleared together with the token.
+   */
+  setCredentials(address: string, password: string): void;
+  onTokenRefresh(listener: (event: TokenRefreshEvent) => void): () => void;
+
+  /**
+   * Provider bound to a single inbox, leaving this provider's token alone.
+   * Renewed session tokens are reported to this provider's listeners.
+   */
+  withSession(session: MailSession): MailProvider;
+
+  getDebugInfo(): { hasToken: boolean; tokenPreview: string | null; canReauthenticate: boolean };
+}
+
+export type MailProviderFactory = () => MailProvider;
+
+export const DEFAULT_MAIL_PROVIDER = 'mail.tm';
+
+const providerFactories = new Map<string, MailProviderFactory>();
+let activeProvider: MailProvider | null = null;
+
+/**
+ * Register a provider implementation under a unique id
+ */
+export function registerMailProvider(id: string, factory: MailProviderFactory): void {
+  if (providerFactories.has(id)) {
+    console.warn(`⚠️ Mail provider "${id}" is already registered, replacing it`);
+  }
+  providerFactories.set(id, factory);
+}
+
+/**
+ * Get the ids of all registered providers
+ */
+export function getRegisteredMailProviders(): string[] {
+  return Array.from(providerFactories.keys());
+}
+
+/**
+ * Switch the active provider. The previous provider's token is discarded.
+ */
+export function setMailProvider(id: string): MailProvider {
+  const factory = providerFactories.get(id);
+  if (!factory) {
+    throw new Error(`Unknown mail provider: ${id}`);
+  }
+
+  activeProvider?.clearToken();
+  activeProvider = factory();
+  console.log('📮 Mail provider selected:', id);
+  return activeProvider;
+}
+
+/**
+ * Get the active provider, resolving it from the environment on first use
+ */
+export function getMailProvider(): MailProvider {
+  if (activeProvider) return activeProvider;
+
+  const configured = import.meta.env?.VITE_MAIL_PROVIDER || DEFAULT_MAIL_PROVIDER;
+  if (!providerFactories.has(configured)) {
+    console.warn(`⚠️ Mail provider "${configured}" is not registered, falling back to ${DEFAULT_MAIL_PROVIDER}`);
+    return setMailProvider(DEFAULT_MAIL_PROVIDER);
+  }
+
+  return setMailProvider(configured);
+}
+
+registerMailProvider(DEFAULT_MAIL_PROVIDER, () => new MailApiService());
@@ -0,0 +1,138 @@
+import { MailMessage } from '../types/api';
+import { normalizeMessage, RawMailMessage } from './mailApi';
+
+export type MessageStreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'unavailable';
+
+export interface MessageStreamHandlers {
+  onMessage: (message: MailMessage) => void;
+  onAccountUpdate?: () => void;
+  onStatusChange?: (status: MessageStreamStatus) => void;
+}
+
+export interface MessageStreamOptions {
+  maxRetries: number;
+  baseDelay: number;
+  maxDelay: number;
+  unavailableCooldown: number;
+  eventSourceFactory: (url: string) => EventSource;
+}
+
+interface MercurePayload extends RawMailMessage {
+  '@type'?: string;
+}
+
+class MessageStreamService {
+  private readonly DEFAULT_OPTIONS: MessageStreamOptions = {
+    maxRetries: 5,
+    baseDelay: 1000,
+    maxDelay: 30000,
+    unavailableCooldown: 5 * 60 * 1000,
+    eventSourceFactory: (url) => new EventSource(url),
+  };
+
+  /**
+   * Open a Mercure subscription and keep it alive with exponential backoff.
+   * After maxRetries consecutive failures the stream reports "unavailable"
+   * so callers can fall back to polling, and retries after a cooldown.
+   * Returns an unsubscribe function.
+   */
+  subscribe(
+    url: string,
+    handlers: MessageStreamHandlers,
+    options?: Partial<MessageStreamOptions>
+  ): () => void {
+    const finalOptions = { ...this.DEFAULT_OPTIONS, ...options };
+    let source: EventSource | null = null;
+    let retryTimeoutId: ReturnType<typeof setTimeout> | null = null;
+    let failures = 0;
+    let closed = false;
+
+    const setStatus = (status: MessageStreamStatus) => {
+      console.log('📡 Message stream status:', status);
+      handlers.onStatusChange?.(status);
+    };
+
+    const connect = () => {
+      if (closed) return;
+
+      setStatus(failures === 0 ? 'connecting' : 'reconnecting');
+
+      try {
+        source = finalOptions.eventSourceFactory(url);
+      } catch (error) {
+        console.error('❌ Failed to open message stream:', error);
+        scheduleReconnect();
+        return;
+      }
+
+      source.onopen = () => {
+        failures = 0;
+        setStatus('open');
+      };
+
+      source.onmessage = (event: MessageEvent<string>) => {
+        this.handleEvent(event.data, handlers);
+      };
+
+      source.onerror = () => {
+        console.warn('⚠️ Message stream error, reconnecting...');
+        source?.close();
+        source = null;
+        scheduleReconnect();
+      };
+    };
+
+    const scheduleReconnect = () => {
+      if (closed) return;
+
+      failures++;
+      let delay: number;
+      if (failures > finalOptions.maxRetries) {
+        setStatus('unavailable');
+        failures = 0;
+        delay = finalOptions.unavailableCooldown;
+      } else {
+        setStatus('reconnecting');
+        delay = Math.min(finalOptions.baseDelay * 2 ** (failures - 1), finalOptions.maxDelay);
+      }
+
+      retryTimeoutId = setTimeout(connect, delay);
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (retryTimeoutId) clearTimeout(retryTimeoutId);
+      source?.close();
+      source = null;
+      setStatus('idle');
+    };
+  }
+
+  private handleEvent(data: string, handlers: MessageStreamHandlers): void {
+    let payload: MercurePayload;
+    try {
+      payload = JSON.parse(data);
+    } catch {
+      console.warn('⚠️ Ignoring malformed stream event:', data);
+      return;
+    }
+
+    if (payload['@type'] === 'Account') {
+      handlers.onAccountUpdate?.();
+      return;
+    }
+
+    if (!payload.id && !payload._id) {
+      console.warn('⚠️ Ignoring stream event without message id:', payload);
+      return;
+    }
+
+    const message = normalizeMessage(payload);
+    console.log('📬 Message received from stream:', message.id);
+    handlers.onMessage(message);
+  }
+}
+
+export const messageStreamService = new MessageStreamService();
@@ -0,0 +1,263 @@
+import { MailMessage } from '../types/api';
+import { AppSettings, settingsService } from './settingsService';
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+const BADGE_SIZE = 32;
+
+/**
+ * New-mail signals: desktop notifications, a chime, and an unread count in
+ * the document title and favicon. Each one is controlled by a setting.
+ */
+class NotificationService {
+  private baseTitle: string | null = null;
+  private baseFavicon: string | null = null;
+  private faviconImage: HTMLImageElement | null = null;
+  private audioContext: AudioContext | null = null;
+  private badgeCount = 0;
+
+  constructor() {
+    settingsService.subscribe(() => this.refreshBadge());
+
+    // Audio only starts from a user gesture, so unlock it on the first one of the session
+    if (typeof document !== 'undefined') {
+      const unlockOnGesture = () => {
+        if (!settingsService.getSettings().notificationSound) return;
+        this.unlockAudio();
+        document.removeEventListener('pointerdown', unlockOnGesture);
+        document.removeEventListener('keydown', unlockOnGesture);
+      };
+      document.addEventListener('pointerdown', unlockOnGesture);
+      document.addEventListener('keydown', unlockOnGesture);
+    }
+  }
+
+  getPermission(): NotificationPermissionState {
+    return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+  }
+
+  /**
+   * Whether any new-mail signal is switched on, i.e. new mail is worth looking for while hidden
+   */
+  hasEnabledSignal(settings: AppSettings = settingsService.getSettings()): boolean {
+    return (settings.desktopNotifications && this.getPermission() === 'granted')
+      || settings.notificationSound
+      || settings.titleBadge
+      || settings.faviconBadge;
+  }
+
+  /**
+   * Ask for permission to show desktop notifications. Must be called from a user gesture.
+   */
+  async requestPermission(): Promise<NotificationPermissionState> {
+    this.unlockAudio();
+    if (typeof Notification === 'undefined') return 'unsupported';
+    if (Notification.permission !== 'default') return Notification.permission;
+
+    try {
+      const permission = await Notification.requestPermission();
+      console.log('🔔 Notification permission:', permission);
+      return permission;
+    } catch (error) {
+      console.error('❌ Failed to request notification permission:', error);
+      return Notification.permission;
+    }
+  }
+
+  /**
+   * Announce messages that just arrived in an inbox
+   */
+  notifyNewMessages(messages: MailMessage[], inboxAddress: string): void {
+    if (messages.length === 0) return;
+
+    const settings = settingsService.getSettings();
+    console.log('🔔 New messages for', inboxAddress, messages.length);
+
+    if (settings.notificationSound) {
+      this.playChime();
+    }
+
+    if (settings.desktopNotifications && this.getPermission() === 'granted') {
+      const [latest] = messages;
+      const sender = latest.from.name || latest.from.address;
+      const title = messages.length === 1 ? `New mail from ${sender}` : `${messages.length} new messages`;
+      const body = messages.length === 1
+        ? latest.subject
+        : messages.slice(0, 3).map(m => `${m.from.name || m.from.address}: ${m.subject}`).join('\n');
+
+      try {
+        const notification = new Notification(title, {
+          body: `${body}\n${inboxAddress}`,
+          tag: `tempbox-${inboxAddress}`,
+          icon: this.getBaseFavicon() ?? undefined,
+        });
+        notification.onclick = () => {
+          window.focus();
+          notification.close();
+        };
+      } catch (error) {
+        console.error('❌ Failed to show notification:', error);
+      }
+    }
+  }
+
+  /**
+   * Run a sample message through the current notification settings
+   */
+  sendTestNotification(): void {
+    this.unlockAudio();
+    const now = new Date().toISOString();
+    this.notifyNewMessages([{
+      id: 'test',
+      accountId: 'test',
+      msgid: 'test',
+      from: { name: 'TempBox', address: 'test@tempbox.local' },
+      to: [],
+      subject: 'This is how new mail will be announced',
+      intro: '',
+      seen: false,
+      isDeleted: false,
+      hasAttachments: false,
+      size: 0,
+      downloadUrl: '',
+      createdAt: now,
+      updatedAt: now,
+    }], 'test@tempbox.local');
+  }
+
+  /**
+   * Create and resume the audio context the chime plays through. Browsers keep
+   * a context created outside a user gesture suspended, so call this from one.
+   */
+  unlockAudio(): void {
+    if (typeof AudioContext === 'undefined') return;
+
+    try {
+      this.audioContext ??= new AudioContext();
+      if (this.audioContext.state === 'suspended') {
+        this.audioContext.resume().catch(error => console.warn('⚠️ Unable to resume audio:', error));
+      }
+    } catch (error) {
+      console.warn('⚠️ Unable to create audio context:', error);
+    }
+  }
+
+  /**
+   * Short two-tone chime generated with WebAudio, silent until audio was unlocked
+   */
+  playChime(): void {
+    const context = this.audioContext;
+    if (!context || context.state !== 'running') {
+      console.warn('⚠️ Notification sound is not unlocked yet, skipping chime');
+      return;
+    }
+
+    try {
+      const start = context.currentTime;
+
+      [880, 1320].forEach((frequency, index) => {
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        const noteStart = start + index * 0.15;
+
+        oscillator.type = 'sine';
+        oscillator.frequency.value = frequency;
+        gain.gain.setValueAtTime(0.0001, noteStart);
+        gain.gain.exponentialRampToValueAtTime(0.2, noteStart + 0.02);
+        gain.gain.exponentialRampToValueAtTime(0.0001, noteStart + 0.3);
+
+        oscillator.connect(gain).connect(context.destination);
+        oscillator.start(noteStart);
+        oscillator.stop(noteStart + 0.3);
+      });
+    } catch (error) {
+      console.warn('⚠️ Unable to play notification sound:', error);
+    }
+  }
+
+  /**
+   * Show the unread count in the document title and favicon, or clear it with 0
+   */
+  setUnreadBadge(count: number): void {
+    const settings = settingsService.getSettings();
+    this.badgeCount = count;
+
+    this.baseTitle ??= document.title;
+    document.title = settings.titleBadge && count > 0 ? `(${count}) ${this.baseTitle}` : this.baseTitle;
+
+    this.updateFavicon(settings.faviconBadge ? count : 0);
+  }
+
+  /**
+   * Re-apply the current badge after badge settings changed
+   */
+  refreshBadge(): void {
+    if (this.baseTitle === null) return;
+    this.setUnreadBadge(this.badgeCount);
+  }
+
+  private getFaviconLink(): HTMLLinkElement | null {
+    return document.querySelector<HTMLLinkElement>('link[rel~="icon"]');
+  }
+
+  private getBaseFavicon(): string | null {
+    this.baseFavicon ??= this.getFaviconLink()?.href ?? null;
+    return this.baseFavicon;
+  }
+
+  private updateFavicon(count: number): void {
+    const link = this.getFaviconLink();
+    const baseFavicon = this.getBaseFavicon();
+    if (!link) return;
+
+    if (count <= 0) {
+      if (baseFavicon) link.href = baseFavicon;
+      return;
+    }
+
+    const draw = (image: HTMLImageElement | null) => {
+      const canvas = document.createElement('canvas');
+      canvas.width = BADGE_SIZE;
+      canvas.height = BADGE_SIZE;
+      const context = canvas.getContext('2d');
+      if (!context) return;
+
+      if (image) {
+        context.drawImage(image, 0, 0, BADGE_SIZE, BADGE_SIZE);
+      }
+
+      const radius = BADGE_SIZE * 0.32;
+      const center = BADGE_SIZE - radius;
+      context.fillStyle = '#dc2626';
+      context.beginPath();
+      context.arc(center, center, radius, 0, Math.PI * 2);
+      context.fill();
+
+      context.fillStyle = '#ffffff';
+      context.font = `bold ${Math.round(radius * 1.3)}px sans-serif`;
+      context.textAlign = 'center';
+      context.textBaseline = 'middle';
+      context.fillText(count > 9 ? '9+' : String(count), center, center + 1);
+
+      link.href = canvas.toDataURL('image/png');
+    };
+
+    if (this.faviconImage?.complete) {
+      draw(this.faviconImage.naturalWidth > 0 ? this.faviconImage : null);
+      return;
+    }
+
+    if (!baseFavicon) {
+      draw(null);
+      return;
+    }
+
+    const image = new Image();
+    image.onload = () => draw(image);
+    image.onerror = () => draw(null);
+    image.src = baseFavicon;
+    this.faviconImage = image;
+  }
+}
+
+export const notificationService = new NotificationService();
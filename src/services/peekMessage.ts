@@ -0,0 +1,48 @@
+import { MailMessage, MailMessageDetail } from '../types/api';
+import type { MailProvider } from './mailProvider';
+import { tabSyncService } from './tabSync';
+
+// Shared by webhooks and the archive, which both want every new message
+const inFlight = new Map<string, Promise<MailMessageDetail>>();
+// Messages the user opened, here or in another tab, while they were being peeked
+const openedDuringPeek = new Set<string>();
+
+/**
+ * Record that the user opened a message, so a peek under way leaves it read
+ */
+export function noteMessageOpened(messageId: string): void {
+  if (inFlight.has(messageId)) openedDuringPeek.add(messageId);
+}
+
+tabSyncService.subscribe(message => {
+  if (message.type === 'message-read') noteMessageOpened(message.messageId);
+});
+
+/**
+ * Load the details of a listed message for background work without leaving
+ * it read. mail.tm marks a message seen once its details are fetched, so a
+ * message that was unread is flagged unread again right after, unless the
+ * user opened it in the meantime.
+ */
+export function peekMessage(provider: MailProvider, message: MailMessage): Promise<MailMessageDetail> {
+  const pending = inFlight.get(message.id);
+  if (pending) return pending;
+
+  const peek = (async () => {
+    const detail = await provider.getMessage(message.id, { priority: 'background' });
+    if (message.seen || openedDuringPeek.has(message.id)) return detail;
+
+    try {
+      await provider.markMessageAsUnread(message.id, { priority: 'background' });
+    } catch (error) {
+      console.warn('⚠️ Unable to keep message unread:', message.id, error);
+    }
+    return { ...detail, seen: false };
+  })().finally(() => {
+    inFlight.delete(message.id);
+    openedDuringPeek.delete(message.id);
+  });
+
+  inFlight.set(message.id, peek);
+  return peek;
+}
@@ -0,0 +1,72 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { requestScheduler } from './requestScheduler';
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>(done => { resolve = done; });
+  return { promise, resolve };
+};
+
+describe('requestScheduler', () => {
+  // The scheduler is a singleton, so one clock runs across all tests
+  beforeAll(() => {
+    vi.useFakeTimers();
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    requestScheduler.configure({ maxConcurrent: 1, maxPerSecond: 100 });
+  });
+
+  afterEach(async () => {
+    // Let the per-second window clear before the next test
+    await vi.advanceTimersByTimeAsync(1000);
+    vi.restoreAllMocks();
+    requestScheduler.configure({ maxConcurrent: 4, maxPerSecond: 8 });
+  });
+
+  it('runs interactive requests before queued background ones', async () => {
+    const order: string[] = [];
+    const blocker = deferred();
+    const first = requestScheduler.schedule(() => blocker.promise, 'background');
+
+    const background = requestScheduler.schedule(async () => { order.push('background'); }, 'background');
+    const interactive = requestScheduler.schedule(async () => { order.push('interactive'); }, 'interactive');
+
+    blocker.resolve();
+    await Promise.all([first, background, interactive]);
+    expect(order).toEqual(['interactive', 'background']);
+  });
+
+  it('caps the requests started per second', async () => {
+    requestScheduler.configure({ maxConcurrent: 10, maxPerSecond: 2 });
+    let started = 0;
+    const tasks = [1, 2, 3].map(() => requestScheduler.schedule(async () => { started++; }));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(started).toBe(3);
+    await Promise.all(tasks);
+  });
+
+  it('holds every request while paused', async () => {
+    requestScheduler.configure({ maxConcurrent: 10 });
+    requestScheduler.pause(3000);
+    let ran = false;
+    const task = requestScheduler.schedule(async () => { ran = true; });
+
+    await vi.advanceTimersByTimeAsync(2900);
+    expect(ran).toBe(false);
+    expect(requestScheduler.getStats().pausedUntil).not.toBeNull();
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(ran).toBe(true);
+    await task;
+  });
+});
@@ -0,0 +1,138 @@
+export type RequestPriority = 'interactive' | 'background';
+
+export interface SchedulerOptions {
+  maxConcurrent: number;
+  maxPerSecond: number;
+}
+
+export interface SchedulerStats {
+  active: number;
+  queued: number;
+  interactiveQueued: number;
+  backgroundQueued: number;
+  pausedUntil: Date | null;
+  completed: number;
+  rateLimited: number;
+}
+
+interface QueuedTask {
+  run: () => void;
+  priority: RequestPriority;
+}
+
+/**
+ * Shared request queue that caps concurrent and per-second requests,
+ * serves interactive requests before background ones, and pauses
+ * everything while the server asks us to back off.
+ */
+class RequestScheduler {
+  private readonly options: SchedulerOptions = {
+    maxConcurrent: 4,
+    maxPerSecond: 8,
+  };
+
+  private interactiveQueue: QueuedTask[] = [];
+  private backgroundQueue: QueuedTask[] = [];
+  private recentStarts: number[] = [];
+  private active = 0;
+  private pausedUntil = 0;
+  private wakeTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private completed = 0;
+  private rateLimited = 0;
+
+  /**
+   * Queue a request and resolve with its result once it has run
+   */
+  schedule<T>(task: () => Promise<T>, priority: RequestPriority = 'interactive'): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const queued: QueuedTask = {
+        priority,
+        run: () => {
+          this.active++;
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.completed++;
+              this.pump();
+            });
+        },
+      };
+
+      if (priority === 'interactive') {
+        this.interactiveQueue.push(queued);
+      } else {
+        this.backgroundQueue.push(queued);
+      }
+      this.pump();
+    });
+  }
+
+  /**
+   * Hold all queued requests until the back-off period has passed
+   */
+  pause(ms: number): void {
+    this.rateLimited++;
+    const until = Date.now() + ms;
+    if (until > this.pausedUntil) {
+      console.warn(`⏳ Rate limited, pausing requests for ${Math.ceil(ms / 1000)}s`);
+      this.pausedUntil = until;
+    }
+    this.pump();
+  }
+
+  configure(options: Partial<SchedulerOptions>): void {
+    Object.assign(this.options, options);
+    this.pump();
+  }
+
+  getStats(): SchedulerStats {
+    return {
+      active: this.active,
+      queued: this.interactiveQueue.length + this.backgroundQueue.length,
+      interactiveQueued: this.interactiveQueue.length,
+      backgroundQueued: this.backgroundQueue.length,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil) : null,
+      completed: this.completed,
+      rateLimited: this.rateLimited,
+    };
+  }
+
+  private pump(): void {
+    const now = Date.now();
+    this.recentStarts = this.recentStarts.filter(start => now - start < 1000);
+
+    while (this.hasQueued() && this.active < this.options.maxConcurrent) {
+      if (now < this.pausedUntil) {
+        this.wakeAt(this.pausedUntil);
+        return;
+      }
+
+      if (this.recentStarts.length >= this.options.maxPerSecond) {
+        this.wakeAt(this.recentStarts[0] + 1000);
+        return;
+      }
+
+      const next = this.interactiveQueue.shift() || this.backgroundQueue.shift();
+      if (!next) return;
+
+      this.recentStarts.push(now);
+      next.run();
+    }
+  }
+
+  private hasQueued(): boolean {
+    return this.interactiveQueue.length > 0 || this.backgroundQueue.length > 0;
+  }
+
+  private wakeAt(time: number): void {
+    if (this.wakeTimeoutId) return;
+
+    this.wakeTimeoutId = setTimeout(() => {
+      this.wakeTimeoutId = null;
+      this.pump();
+    }, Math.max(0, time - Date.now()));
+  }
+}
+
+export const requestScheduler = new RequestScheduler();
@@ -0,0 +1,63 @@
+import { DEFAULT_INBOX_LIFETIME, InboxLifetime } from '../utils/lifetime';
+
+export interface AppSettings {
+  inboxLifetime: InboxLifetime;
+  desktopNotifications: boolean;
+  notificationSound: boolean;
+  titleBadge: boolean;
+  faviconBadge: boolean;
+  autoCopyVerification: boolean;
+  groupConversations: boolean;
+}
+
+const DEFAULT_SETTINGS: AppSettings = {
+  inboxLifetime: DEFAULT_INBOX_LIFETIME,
+  desktopNotifications: false,
+  notificationSound: false,
+  titleBadge: true,
+  faviconBadge: true,
+  autoCopyVerification: false,
+  groupConversations: true,
+};
+
+class SettingsService {
+  private readonly SETTINGS_KEY = 'tempbox-settings';
+  private settings: AppSettings | null = null;
+  private listeners = new Set<(settings: AppSettings) => void>();
+
+  /**
+   * Get the current settings, filling in defaults for anything unset
+   */
+  getSettings(): AppSettings {
+    if (this.settings) return this.settings;
+
+    try {
+      const stored = localStorage.getItem(this.SETTINGS_KEY);
+      this.settings = { ...DEFAULT_SETTINGS, ...(stored ? JSON.parse(stored) : {}) };
+    } catch (error) {
+      console.error('Failed to parse settings:', error);
+      this.settings = { ...DEFAULT_SETTINGS };
+    }
+    return this.settings!;
+  }
+
+  /**
+   * Save changed settings and notify subscribers
+   */
+  updateSettings(changes: Partial<AppSettings>): AppSettings {
+    this.settings = { ...this.getSettings(), ...changes };
+    localStorage.setItem(this.SETTINGS_KEY, JSON.stringify(this.settings));
+    console.log('⚙️ Settings updated:', changes);
+    this.listeners.forEach(listener => listener(this.settings!));
+    return this.settings;
+  }
+
+  subscribe(listener: (settings: AppSettings) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const settingsService = new SettingsService();
@@ -1,4 +1,7 @@
 import { MailAccount } from '../types/api';
+import { generateId } from '../utils/credentials';
+import { getExpiryStatus, isExpired } from '../utils/lifetime';
+import { getDefaultStorage, KeyValueStorage } from '../sdk/storage';
 
 export interface StoredAccount {
   id: string;
@@ -6,7 +9,7 @@ export interface StoredAccount {
   password: string;
   token: string;
   createdAt: Date;
-  expiresAt: Date;
+  expiresAt: Date | null;
   deleted: boolean;
   lastAccessedAt: Date;
   messageCount: number;
@@ -16,7 +19,7 @@ export interface StoredAccount {
 export interface AuditLogEntry {
   id: string;
   accountId: string;
-  action: 'CREATED' | 'ACCESSED' | 'EXPIRED' | 'DELETED' | 'CLEANUP_ATTEMPTED' | 'CLEANUP_FAILED';
+  action: 'CREATED' | 'ACCESSED' | 'EXTENDED' | 'EXPIRED' | 'DELETED' | 'CLEANUP_ATTEMPTED' | 'CLEANUP_FAILED';
   timestamp: Date;
   details?: string;
 }
@@ -29,17 +32,27 @@ export interface CleanupStats {
   lastCleanupRun: Date;
 }
 
-class StorageService {
+/**
+ * Inbox records, audit log and cleanup statistics, kept in a key/value store
+ */
+export class StorageService {
   private readonly ACCOUNTS_KEY = 'tempbox-accounts';
   private readonly AUDIT_LOG_KEY = 'tempbox-audit-log';
   private readonly CLEANUP_STATS_KEY = 'tempbox-cleanup-stats';
+  private readonly TEMPLATE_COUNTERS_KEY = 'tempbox-template-counters';
   private readonly MAX_AUDIT_ENTRIES = 1000;
   private readonly MAX_ACCOUNTS_STORED = 50;
 
+  private readonly storage: KeyValueStorage;
+
+  constructor(storage: KeyValueStorage = getDefaultStorage()) {
+    this.storage = storage;
+  }
+
   /**
    * Store account data with enhanced metadata
    */
-  storeAccount(account: MailAccount, password: string, token: string, expiresAt: Date): StoredAccount {
+  storeAccount(account: MailAccount, password: string, token: string, expiresAt: Date | null): StoredAccount {
     const storedAccount: StoredAccount = {
       id: account.id,
       address: account.address,
@@ -87,6 +100,44 @@ class StorageService {
     }
   }
 
+  /**
+   * Replace the stored token after a re-authentication
+   */
+  updateAccountToken(accountId: string, token: string): void {
+    const accounts = this.getStoredAccounts();
+    const accountIndex = accounts.findIndex(a => a.id === accountId);
+    
+    if (accountIndex !== -1) {
+      accounts[accountIndex].token = token;
+      this.saveAccounts(accounts);
+    }
+  }
+
+  /**
+   * Push an account's expiry back, returning the updated account.
+   * Accounts without an expiry or already deleted are left alone.
+   */
+  extendAccountExpiration(accountId: string, additionalMs: number): StoredAccount | null {
+    const accounts = this.getStoredAccounts();
+    const account = accounts.find(a => a.id === accountId);
+    
+    if (!account || account.deleted || !account.expiresAt) {
+      return null;
+    }
+
+    // An inbox that already ran out is extended from now rather than from the past
+    const base = Math.max(account.expiresAt.getTime(), Date.now());
+    account.expiresAt = new Date(base + additionalMs);
+    this.saveAccounts(accounts);
+    this.addAuditLogEntry(
+      accountId,
+      'EXTENDED',
+      `Expiry extended by ${Math.round(additionalMs / 60000)} min to ${account.expiresAt.toISOString()}`
+    );
+    
+    return account;
+  }
+
   /**
    * Mark account as deleted
    */
@@ -114,14 +165,14 @@ class StorageService {
    */
   getStoredAccounts(): StoredAccount[] {
     try {
-      const stored = localStorage.getItem(this.ACCOUNTS_KEY);
+      const stored = this.storage.getItem(this.ACCOUNTS_KEY);
       if (!stored) return [];
       
       const accounts = JSON.parse(stored);
       return accounts.map((account: any) => ({
         ...account,
         createdAt: new Date(account.createdAt),
-        expiresAt: new Date(account.expiresAt),
+        expiresAt: account.expiresAt ? new Date(account.expiresAt) : null,
         lastAccessedAt: new Date(account.lastAccessedAt),
       }));
     } catch (error) {
@@ -135,11 +186,10 @@ class StorageService {
    */
   getExpiredAccounts(): StoredAccount[] {
     const accounts = this.getStoredAccounts();
-    const now = new Date();
     
     return accounts.filter(account => 
       !account.deleted && 
-      account.expiresAt < now
+      isExpired(account.expiresAt)
     );
   }
 
@@ -150,7 +200,7 @@ class StorageService {
     try {
       const auditLog = this.getAuditLog();
       const entry: AuditLogEntry = {
-        id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        id: generateId('audit'),
         accountId,
         action,
         timestamp: new Date(),
@@ -164,7 +214,7 @@ class StorageService {
         .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
         .slice(0, this.MAX_AUDIT_ENTRIES);
       
-      localStorage.setItem(this.AUDIT_LOG_KEY, JSON.stringify(trimmedLog));
+      this.storage.setItem(this.AUDIT_LOG_KEY, JSON.stringify(trimmedLog));
     } catch (error) {
       console.error('Failed to add audit log entry:', error);
     }
@@ -175,7 +225,7 @@ class StorageService {
    */
   getAuditLog(): AuditLogEntry[] {
     try {
-      const stored = localStorage.getItem(this.AUDIT_LOG_KEY);
+      const stored = this.storage.getItem(this.AUDIT_LOG_KEY);
       if (!stored) return [];
       
       const entries = JSON.parse(stored);
@@ -215,7 +265,7 @@ class StorageService {
    */
   getCleanupStats(): CleanupStats {
     try {
-      const stored = localStorage.getItem(this.CLEANUP_STATS_KEY);
+      const stored = this.storage.getItem(this.CLEANUP_STATS_KEY);
       if (!stored) {
         return this.calculateCleanupStats();
       }
@@ -236,7 +286,7 @@ class StorageService {
    */
   updateCleanupStats(): void {
     const stats = this.calculateCleanupStats();
-    localStorage.setItem(this.CLEANUP_STATS_KEY, JSON.stringify(stats));
+    this.storage.setItem(this.CLEANUP_STATS_KEY, JSON.stringify(stats));
   }
 
   /**
@@ -244,9 +294,8 @@ class StorageService {
    */
   private calculateCleanupStats(): CleanupStats {
     const accounts = this.getStoredAccounts();
-    const now = new Date();
     
-    const expiredAccounts = accounts.filter(a => a.expiresAt < now);
+    const expiredAccounts = accounts.filter(a => isExpired(a.expiresAt));
     const deletedAccounts = accounts.filter(a => a.deleted);
     const failedDeletions = accounts.filter(a => a.cleanupAttempts > 0 && !a.deleted);
     
@@ -279,46 +328,61 @@ class StorageService {
     );
     
     this.saveAccounts(recentAccounts);
-    localStorage.setItem(this.AUDIT_LOG_KEY, JSON.stringify(recentAuditEntries));
+    this.storage.setItem(this.AUDIT_LOG_KEY, JSON.stringify(recentAuditEntries));
     
     console.log(`🧹 Cleaned up old data - Removed ${accounts.length - recentAccounts.length} accounts and ${auditLog.length - recentAuditEntries.length} audit entries`);
   }
 
   /**
-   * Get warning threshold info for expiring accounts
+   * Get warning threshold info for expiring accounts, relative to each account's lifetime
    */
   getExpirationWarnings(): { critical: StoredAccount[]; warning: StoredAccount[] } {
-    const accounts = this.getStoredAccounts();
-    const now = new Date();
-    const oneHour = 60 * 60 * 1000;
-    const thirtyMinutes = 30 * 60 * 1000;
+    const accounts = this.getStoredAccounts().filter(account => !account.deleted);
+    const now = Date.now();
     
-    const critical = accounts.filter(account => {
-      const timeLeft = account.expiresAt.getTime() - now.getTime();
-      return !account.deleted && timeLeft > 0 && timeLeft <= thirtyMinutes;
-    });
+    const critical = accounts.filter(account =>
+      getExpiryStatus(account.createdAt, account.expiresAt, now).level === 'critical'
+    );
     
-    const warning = accounts.filter(account => {
-      const timeLeft = account.expiresAt.getTime() - now.getTime();
-      return !account.deleted && timeLeft > thirtyMinutes && timeLeft <= oneHour;
-    });
+    const warning = accounts.filter(account =>
+      getExpiryStatus(account.createdAt, account.expiresAt, now).level === 'warning'
+    );
     
     return { critical, warning };
   }
 
+  /**
+   * Get the next sequence number for a username template series
+   */
+  getNextTemplateSequence(series: string): number {
+    let counters: Record<string, number> = {};
+    try {
+      const stored = this.storage.getItem(this.TEMPLATE_COUNTERS_KEY);
+      counters = stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Failed to parse template counters:', error);
+    }
+
+    const next = (counters[series] || 0) + 1;
+    counters[series] = next;
+    this.storage.setItem(this.TEMPLATE_COUNTERS_KEY, JSON.stringify(counters));
+    return next;
+  }
+
   /**
    * Clear all stored data (for debugging or reset)
    */
   clearAllData(): void {
-    localStorage.removeItem(this.ACCOUNTS_KEY);
-    localStorage.removeItem(this.AUDIT_LOG_KEY);
-    localStorage.removeItem(this.CLEANUP_STATS_KEY);
-    localStorage.removeItem('inbox-state'); // Legacy cleanup
+    this.storage.removeItem(this.ACCOUNTS_KEY);
+    this.storage.removeItem(this.AUDIT_LOG_KEY);
+    this.storage.removeItem(this.CLEANUP_STATS_KEY);
+    this.storage.removeItem(this.TEMPLATE_COUNTERS_KEY);
+    this.storage.removeItem('inbox-state'); // Legacy cleanup
     console.log('🗑️ All TempBox data cleared');
   }
 
   private saveAccounts(accounts: StoredAccount[]): void {
-    localStorage.setItem(this.ACCOUNTS_KEY, JSON.stringify(accounts));
+    this.storage.setItem(this.ACCOUNTS_KEY, JSON.stringify(accounts));
   }
 }
 
@@ -0,0 +1,156 @@
+import { MailMessage, PaginatedCollection } from '../types/api';
+import { OpenInbox } from '../types/inbox';
+import { generateId } from '../utils/credentials';
+
+export type TabSyncMessage =
+  | { type: 'inboxes'; inboxes: Record<string, OpenInbox> }
+  | { type: 'messages'; accountId: string; page: PaginatedCollection<MailMessage> }
+  | { type: 'message-read'; messageId: string }
+  | { type: 'message-deleted'; messageId: string };
+
+type PresenceMessage =
+  | { type: 'hello'; tabId: string; visible: boolean }
+  | { type: 'presence'; tabId: string; visible: boolean }
+  | { type: 'bye'; tabId: string };
+
+interface Envelope {
+  from: string;
+  message: TabSyncMessage | PresenceMessage;
+}
+
+export interface TabSyncState {
+  isLeader: boolean;
+  /**
+   * Whether another open tab is currently visible
+   */
+  peerVisible: boolean;
+}
+
+const CHANNEL_NAME = 'tempbox-sync';
+const LEADER_LOCK = 'tempbox-leader';
+
+/**
+ * Keeps TempBox tabs in step over a BroadcastChannel and elects one leader
+ * tab (through a Web Lock) to poll and run cleanup. The lock is released
+ * when the leader tab closes, handing leadership to a waiting tab.
+ */
+class TabSyncService {
+  readonly tabId = generateId('tab');
+  private channel: BroadcastChannel | null = null;
+  private started = false;
+  private isLeader = false;
+  private peers = new Map<string, boolean>();
+  private messageListeners = new Set<(message: TabSyncMessage) => void>();
+  private stateListeners = new Set<(state: TabSyncState) => void>();
+
+  /**
+   * Join the channel and queue for leadership. Safe to call repeatedly.
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<Envelope>) => this.handleEnvelope(event.data);
+      this.post({ type: 'hello', tabId: this.tabId, visible: !document.hidden });
+
+      document.addEventListener('visibilitychange', () => {
+        this.post({ type: 'presence', tabId: this.tabId, visible: !document.hidden });
+      });
+      window.addEventListener('pagehide', () => {
+        this.post({ type: 'bye', tabId: this.tabId });
+      });
+    } else {
+      console.warn('⚠️ BroadcastChannel unavailable, tabs will not be synchronized');
+    }
+
+    if (navigator.locks) {
+      // Held until the tab closes, the next tab in line then takes over
+      navigator.locks.request(LEADER_LOCK, () => {
+        console.log('👑 This tab is now the leader:', this.tabId);
+        this.setLeader(true);
+        return new Promise<void>(() => {});
+      }).catch(error => {
+        console.error('❌ Leader election failed, acting as leader:', error);
+        this.setLeader(true);
+      });
+    } else {
+      console.warn('⚠️ Web Locks unavailable, every tab acts as leader');
+      this.setLeader(true);
+    }
+  }
+
+  /**
+   * Send an update to the other tabs
+   */
+  publish(message: TabSyncMessage): void {
+    this.post(message);
+  }
+
+  subscribe(listener: (message: TabSyncMessage) => void): () => void {
+    this.messageListeners.add(listener);
+    return () => {
+      this.messageListeners.delete(listener);
+    };
+  }
+
+  onStateChange(listener: (state: TabSyncState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  getState(): TabSyncState {
+    return {
+      isLeader: this.isLeader,
+      peerVisible: Array.from(this.peers.values()).some(Boolean),
+    };
+  }
+
+  private post(message: TabSyncMessage | PresenceMessage): void {
+    try {
+      this.channel?.postMessage({ from: this.tabId, message } satisfies Envelope);
+    } catch (error) {
+      console.error('❌ Failed to broadcast to other tabs:', error);
+    }
+  }
+
+  private handleEnvelope({ from, message }: Envelope): void {
+    if (from === this.tabId) return;
+
+    switch (message.type) {
+      case 'hello':
+        this.post({ type: 'presence', tabId: this.tabId, visible: !document.hidden });
+        this.updatePeer(message.tabId, message.visible);
+        return;
+      case 'presence':
+        this.updatePeer(message.tabId, message.visible);
+        return;
+      case 'bye':
+        this.peers.delete(message.tabId);
+        this.notifyState();
+        return;
+      default:
+        this.messageListeners.forEach(listener => listener(message));
+    }
+  }
+
+  private updatePeer(tabId: string, visible: boolean): void {
+    this.peers.set(tabId, visible);
+    this.notifyState();
+  }
+
+  private setLeader(isLeader: boolean): void {
+    this.isLeader = isLeader;
+    this.notifyState();
+  }
+
+  private notifyState(): void {
+    const state = this.getState();
+    this.stateListeners.forEach(listener => listener(state));
+  }
+}
+
+export const tabSyncService = new TabSyncService();
@@ -0,0 +1,8 @@
+import { TempBoxClient } from '../sdk';
+import { getMailProvider } from './mailProvider';
+
+/**
+ * The SDK client the app works through. It follows the active mail provider
+ * and keeps inbox records in localStorage, next to storageService.
+ */
+export const tempBox = new TempBoxClient({ provider: getMailProvider });
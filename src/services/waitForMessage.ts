@@ -0,0 +1,223 @@
+import { MailMessage, MailMessageDetail } from '../types/api';
+import { getMailProvider, MailProvider } from './mailProvider';
+import { MailApiError } from './mailApiErrors';
+import { messageStreamService } from './messageStream';
+
+/**
+ * A substring (case-insensitive), a regular expression or a predicate
+ */
+export type MessageMatcher = string | RegExp | ((value: string) => boolean);
+
+export interface WaitForMessageOptions {
+  /**
+   * Matched against the sender address and display name
+   */
+  from?: MessageMatcher;
+  subject?: MessageMatcher;
+  /**
+   * Matched against the text body and every HTML part
+   */
+  bodyMatches?: MessageMatcher;
+  timeoutMs?: number;
+  /**
+   * Time between polls while the live stream is not delivering
+   */
+  pollIntervalMs?: number;
+  /**
+   * Ignore messages received before this moment
+   */
+  since?: Date;
+  /**
+   * Inbox the provider is signed into. Enables the live stream when the
+   * provider has one, otherwise the inbox is only polled.
+   */
+  accountId?: string;
+  /**
+   * Provider to use, the active one by default. Pass a session from
+   * `withSession` to wait on an inbox other than the active one.
+   */
+  provider?: MailProvider;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_POLL_INTERVAL_MS = 3000;
+const PAGE_SIZE = 30;
+// While the live stream is open polling only guards against missed events
+const STREAM_OPEN_POLL_INTERVAL_MS = 15000;
+
+/**
+ * No matching message arrived in time. Lists what did arrive so a failing
+ * test shows why nothing matched.
+ */
+export class MessageWaitTimeoutError extends Error {
+  readonly timeoutMs: number;
+  readonly criteria: string;
+  readonly received: MailMessage[];
+
+  constructor(timeoutMs: number, criteria: string, received: MailMessage[]) {
+    const summary = received.length === 0
+      ? 'No messages arrived.'
+      : `Received ${received.length} message(s) that did not match:\n` + received
+        .map(message => `  - "${message.subject || '(No subject)'}" from ${message.from?.address ?? 'unknown'} at ${message.createdAt}`)
+        .join('\n');
+    super(`Timed out after ${timeoutMs}ms waiting for a message (${criteria}). ${summary}`);
+    this.name = new.target.name;
+    this.timeoutMs = timeoutMs;
+    this.criteria = criteria;
+    this.received = received;
+  }
+}
+
+function matches(matcher: MessageMatcher | undefined, ...values: Array<string | undefined>): boolean {
+  if (matcher === undefined) return true;
+  return values.some(value => {
+    if (value === undefined) return false;
+    if (typeof matcher === 'string') return value.toLowerCase().includes(matcher.toLowerCase());
+    if (matcher instanceof RegExp) {
+      matcher.lastIndex = 0;
+      return matcher.test(value);
+    }
+    return matcher(value);
+  });
+}
+
+function describeMatcher(matcher: MessageMatcher): string {
+  if (typeof matcher === 'string') return `"${matcher}"`;
+  if (matcher instanceof RegExp) return matcher.toString();
+  return 'custom predicate';
+}
+
+function describeCriteria({ from, subject, bodyMatches, since }: WaitForMessageOptions): string {
+  const parts = [
+    from !== undefined && `from ${describeMatcher(from)}`,
+    subject !== undefined && `subject ${describeMatcher(subject)}`,
+    bodyMatches !== undefined && `body ${describeMatcher(bodyMatches)}`,
+    since && `received after ${since.toISOString()}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'any message';
+}
+
+/**
+ * Resolve with the first message that matches every given condition,
+ * including messages already in the inbox unless `since` excludes them.
+ * Sender and subject are checked on the message list; the body needs the
+ * full message, which is fetched only for messages that passed those.
+ * Listens to the live stream when available and polls as a fallback.
+ */
+export function waitForMessage(options: WaitForMessageOptions = {}): Promise<MailMessageDetail> {
+  const provider = options.provider ?? getMailProvider();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const criteria = describeCriteria(options);
+
+  console.log('⏳ Waiting for message:', criteria);
+
+  return new Promise<MailMessageDetail>((resolve, reject) => {
+    const checked = new Set<string>();
+    const received: MailMessage[] = [];
+    let settled = false;
+    let pollTimeoutId: ReturnType<typeof setTimeout> | null = null;
+    let unsubscribeStream: (() => void) | null = null;
+    let streamOpen = false;
+    // Checks run one at a time so a message is never fetched twice
+    let queue: Promise<void> = Promise.resolve();
+
+    const finish = (outcome: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(deadlineId);
+      if (pollTimeoutId) clearTimeout(pollTimeoutId);
+      unsubscribeStream?.();
+      options.signal?.removeEventListener('abort', handleAbort);
+      outcome();
+    };
+
+    const fail = (error: unknown) => finish(() => reject(error));
+
+    const handleAbort = () => fail(options.signal?.reason ?? new DOMException('Aborted', 'AbortError'));
+
+    const check = async (message: MailMessage) => {
+      if (settled || checked.has(message.id)) return;
+      checked.add(message.id);
+
+      if (options.since && new Date(message.createdAt).getTime() < options.since.getTime()) return;
+
+      if (!matches(options.from, message.from?.address, message.from?.name) || !matches(options.subject, message.subject)) {
+        received.push(message);
+        return;
+      }
+
+      let detail: MailMessageDetail;
+      try {
+        detail = await provider.getMessage(message.id);
+      } catch (error) {
+        // Look at it again on the next poll
+        checked.delete(message.id);
+        throw error;
+      }
+      if (options.bodyMatches !== undefined && !matches(options.bodyMatches, detail.text, ...(detail.html ?? []))) {
+        received.push(message);
+        return;
+      }
+
+      console.log('✅ Matching message arrived:', message.id);
+      finish(() => resolve(detail));
+    };
+
+    const enqueue = (messages: MailMessage[]) => {
+      const run = queue.then(async () => {
+        for (const message of messages) {
+          await check(message);
+        }
+      });
+      // A failed check must not block the ones after it
+      queue = run.catch(() => undefined);
+      return run;
+    };
+
+    const poll = async () => {
+      pollTimeoutId = null;
+      try {
+        const page = await provider.getMessages(1, PAGE_SIZE);
+        // Oldest first, so the earliest match wins
+        await enqueue([...page.items].reverse());
+      } catch (error) {
+        if (!(error instanceof MailApiError) || !error.isRetryable) {
+          fail(error);
+          return;
+        }
+        console.warn('⚠️ Poll failed while waiting for message, retrying:', error);
+      }
+      if (!settled) {
+        pollTimeoutId = setTimeout(poll, streamOpen ? Math.max(pollIntervalMs, STREAM_OPEN_POLL_INTERVAL_MS) : pollIntervalMs);
+      }
+    };
+
+    const deadlineId = setTimeout(() => fail(new MessageWaitTimeoutError(timeoutMs, criteria, received)), timeoutMs);
+
+    if (options.signal?.aborted) {
+      handleAbort();
+      return;
+    }
+    options.signal?.addEventListener('abort', handleAbort);
+
+    const streamUrl = options.accountId && typeof EventSource !== 'undefined'
+      ? provider.getMessageStreamUrl?.(options.accountId) ?? null
+      : null;
+    if (streamUrl) {
+      unsubscribeStream = messageStreamService.subscribe(streamUrl, {
+        onMessage: (message) => {
+          enqueue([message]).catch(error => {
+            if (!(error instanceof MailApiError) || !error.isRetryable) fail(error);
+          });
+        },
+        onStatusChange: (status) => {
+          streamOpen = status === 'open';
+        },
+      });
+    }
+
+    poll();
+  });
+}
@@ -0,0 +1,427 @@
+import { MailMessage, MailMessageDetail } from '../types/api';
+import type { MailProvider } from './mailProvider';
+import { peekMessage } from './peekMessage';
+import { generateId, generateSecureString } from '../utils/credentials';
+import { extractVerifications, VerificationCandidate } from '../utils/verificationExtractor';
+
+export interface WebhookConfig {
+  enabled: boolean;
+  url: string;
+  /**
+   * Key for the HMAC signature header; deliveries are unsigned without one
+   */
+  secret: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  accountId: string;
+  address: string;
+  messageId: string;
+  subject: string;
+  url: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: Date;
+  lastAttemptAt: Date | null;
+  nextAttemptAt: Date | null;
+  test: boolean;
+  /**
+   * Serialized payload, kept so a failed delivery can be sent again
+   */
+  body: string;
+}
+
+export interface WebhookPayload {
+  event: 'message.received';
+  deliveryId: string;
+  inbox: { id: string; address: string };
+  message: {
+    id: string;
+    from: { address: string; name: string };
+    to: Array<{ address: string; name: string }>;
+    subject: string;
+    intro: string;
+    text: string;
+    createdAt: string;
+    hasAttachments: boolean;
+    attachments: Array<{ filename: string; contentType: string; size: number }>;
+  };
+  verification: {
+    otp: string | null;
+    link: string | null;
+    candidates: VerificationCandidate[];
+  };
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-TempBox-Signature';
+
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60000;
+const REQUEST_TIMEOUT_MS = 10000;
+// mail.tm cuts the intro off around this length
+const INTRO_PREVIEW_LENGTH = 100;
+
+type InboxIdentity = { id: string; address: string };
+
+/**
+ * 408, 429 and server errors are worth another try; other 4xx will not change
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * HMAC-SHA256 over `<timestamp>.<body>`, hex encoded
+ */
+async function sign(secret: string, timestamp: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`)));
+}
+
+/**
+ * Short mail without attachments is whole in the list entry: its intro is the
+ * full text, so the message does not have to be loaded
+ */
+function isCompleteInList(message: MailMessage): boolean {
+  const intro = message.intro.trim();
+  return !message.hasAttachments && intro.length > 0 && intro.length < INTRO_PREVIEW_LENGTH && !/(…|\.\.\.)$/.test(intro);
+}
+
+/**
+ * Payload from the list entry, with the body and attachments from the
+ * loaded details when there are any
+ */
+function buildPayload(deliveryId: string, inbox: InboxIdentity, message: MailMessage, detail?: MailMessageDetail): WebhookPayload {
+  const candidates = extractVerifications(detail ?? { subject: message.subject, text: message.intro });
+  return {
+    event: 'message.received',
+    deliveryId,
+    inbox: { id: inbox.id, address: inbox.address },
+    message: {
+      id: message.id,
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      intro: message.intro,
+      text: detail?.text ?? message.intro,
+      createdAt: message.createdAt,
+      hasAttachments: message.hasAttachments,
+      attachments: (detail?.attachments ?? []).map(({ filename, contentType, size }) => ({ filename, contentType, size })),
+    },
+    verification: {
+      otp: candidates.find(candidate => candidate.kind === 'code')?.value ?? null,
+      link: candidates.find(candidate => candidate.kind === 'link')?.value ?? null,
+      candidates,
+    },
+  };
+}
+
+/**
+ * Forwards new mail to per-inbox webhook URLs as signed JSON POSTs, retrying
+ * with exponential backoff, and keeps a log of every delivery.
+ */
+class WebhookService {
+  private readonly CONFIGS_KEY = 'tempbox-webhooks';
+  private readonly LOG_KEY = 'tempbox-webhook-log';
+  private readonly MAX_LOG_ENTRIES = 100;
+
+  private retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  // Messages being loaded for a delivery, so overlapping cache updates post them once
+  private forwarding = new Set<string>();
+  private listeners = new Set<(deliveries: WebhookDelivery[]) => void>();
+
+  constructor() {
+    // Retries only live as long as the page that started them. Pending
+    // deliveries whose next attempt is long overdue belonged to a closed page.
+    const staleBefore = Date.now() - REQUEST_TIMEOUT_MS * 2;
+    const interrupted = this.getDeliveries().filter(delivery =>
+      delivery.status === 'pending'
+      && (delivery.nextAttemptAt ?? delivery.lastAttemptAt ?? delivery.createdAt).getTime() < staleBefore);
+    interrupted.forEach(delivery => this.updateDelivery(delivery.id, {
+      status: 'failed',
+      error: delivery.error ?? 'Interrupted before it could be delivered',
+      nextAttemptAt: null,
+    }));
+  }
+
+  getConfig(accountId: string): WebhookConfig | null {
+    return this.loadConfigs()[accountId] ?? null;
+  }
+
+  saveConfig(accountId: string, config: WebhookConfig): void {
+    this.saveConfigs({ ...this.loadConfigs(), [accountId]: config });
+    console.log('🪝 Webhook settings saved:', { accountId, url: config.url, enabled: config.enabled });
+  }
+
+  /**
+   * Whether any of the given inboxes forwards its mail
+   */
+  hasEnabledWebhook(accountIds: string[]): boolean {
+    const configs = this.loadConfigs();
+    return accountIds.some(accountId => configs[accountId]?.enabled && !!configs[accountId].url);
+  }
+
+  /**
+   * Forget the webhook of an inbox that was closed
+   */
+  removeConfig(accountId: string): void {
+    const configs = this.loadConfigs();
+    if (!(accountId in configs)) return;
+    delete configs[accountId];
+    this.saveConfigs(configs);
+  }
+
+  generateSecret(): string {
+    return generateSecureString(32);
+  }
+
+  /**
+   * Post each message to the inbox's webhook, if it has an enabled one.
+   * Messages that were already forwarded, or are on their way, are skipped.
+   * Only mail that is not whole in the list is loaded, and loading it leaves
+   * unread messages unread.
+   */
+  async forwardMessages(inbox: InboxIdentity, messages: MailMessage[], provider: MailProvider): Promise<void> {
+    const config = this.getConfig(inbox.id);
+    if (!config?.enabled || !config.url) return;
+
+    const forwarded = new Set(
+      this.getDeliveries()
+        .filter(delivery => delivery.accountId === inbox.id && !delivery.test)
+        .map(delivery => delivery.messageId),
+    );
+    const pending = messages.filter(message => !forwarded.has(message.id) && !this.forwarding.has(message.id));
+    pending.forEach(message => this.forwarding.add(message.id));
+
+    for (const message of pending) {
+      try {
+        const detail = isCompleteInList(message) ? undefined : await peekMessage(provider, message);
+        this.enqueue(inbox, message, detail, config, false);
+      } catch (error) {
+        console.error('❌ Failed to load message for webhook:', message.id, error);
+      } finally {
+        this.forwarding.delete(message.id);
+      }
+    }
+  }
+
+  /**
+   * Send a sample message to the inbox's webhook URL, enabled or not
+   */
+  sendTest(inbox: InboxIdentity, config: WebhookConfig): WebhookDelivery {
+    const now = new Date().toISOString();
+    const sample: MailMessageDetail = {
+      id: 'test',
+      accountId: inbox.id,
+      msgid: 'test',
+      from: { name: 'TempBox', address: 'test@tempbox.local' },
+      to: [{ name: '', address: inbox.address }],
+      cc: [],
+      bcc: [],
+      subject: 'Your verification code',
+      intro: 'Your verification code is 123456',
+      text: 'Your verification code is 123456',
+      html: [],
+      seen: false,
+      isDeleted: false,
+      flagged: false,
+      hasAttachments: false,
+      attachments: [],
+      verifications: [],
+      retention: false,
+      retentionDate: now,
+      size: 0,
+      downloadUrl: '',
+      createdAt: now,
+      updatedAt: now,
+    };
+    return this.enqueue(inbox, sample, sample, config, true);
+  }
+
+  /**
+   * Send a failed delivery again, starting a fresh round of attempts
+   */
+  retryDelivery(deliveryId: string): void {
+    const delivery = this.getDeliveries().find(entry => entry.id === deliveryId);
+    if (!delivery || delivery.status === 'pending') return;
+
+    const config = this.getConfig(delivery.accountId);
+    this.updateDelivery(deliveryId, { status: 'pending', attempts: 0, error: null, nextAttemptAt: null });
+    this.attempt(deliveryId, config?.secret ?? '');
+  }
+
+  /**
+   * Delivery log, newest first
+   */
+  getDeliveries(): WebhookDelivery[] {
+    try {
+      const stored = localStorage.getItem(this.LOG_KEY);
+      if (!stored) return [];
+
+      return JSON.parse(stored).map((delivery: WebhookDelivery) => ({
+        ...delivery,
+        createdAt: new Date(delivery.createdAt),
+        lastAttemptAt: delivery.lastAttemptAt ? new Date(delivery.lastAttemptAt) : null,
+        nextAttemptAt: delivery.nextAttemptAt ? new Date(delivery.nextAttemptAt) : null,
+      }));
+    } catch (error) {
+      console.error('Failed to parse webhook log:', error);
+      return [];
+    }
+  }
+
+  clearDeliveries(): void {
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+    this.saveDeliveries([]);
+  }
+
+  subscribe(listener: (deliveries: WebhookDelivery[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private enqueue(
+    inbox: InboxIdentity,
+    message: MailMessage,
+    detail: MailMessageDetail | undefined,
+    config: WebhookConfig,
+    test: boolean,
+  ): WebhookDelivery {
+    const id = generateId('hook');
+    const delivery: WebhookDelivery = {
+      id,
+      accountId: inbox.id,
+      address: inbox.address,
+      messageId: message.id,
+      subject: message.subject,
+      url: config.url,
+      status: 'pending',
+      attempts: 0,
+      responseStatus: null,
+      error: null,
+      createdAt: new Date(),
+      lastAttemptAt: null,
+      nextAttemptAt: null,
+      test,
+      body: JSON.stringify(buildPayload(id, inbox, message, detail)),
+    };
+
+    this.saveDeliveries([delivery, ...this.getDeliveries()].slice(0, this.MAX_LOG_ENTRIES));
+    this.attempt(id, config.secret);
+    return delivery;
+  }
+
+  private async attempt(deliveryId: string, secret: string): Promise<void> {
+    this.retryTimers.delete(deliveryId);
+    const delivery = this.getDeliveries().find(entry => entry.id === deliveryId);
+    if (!delivery || delivery.status !== 'pending') return;
+
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+    let retryable = true;
+
+    try {
+      // Signed per attempt so receivers can reject stale timestamps
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'X-TempBox-Event': 'message.received',
+        'X-TempBox-Delivery': delivery.id,
+        'X-TempBox-Timestamp': timestamp,
+      };
+      if (secret) {
+        headers[WEBHOOK_SIGNATURE_HEADER] = `sha256=${await sign(secret, timestamp, delivery.body)}`;
+      }
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+      try {
+        const response = await fetch(delivery.url, {
+          method: 'POST',
+          headers,
+          body: delivery.body,
+          signal: controller.signal,
+        });
+        responseStatus = response.status;
+        if (!response.ok) {
+          error = `HTTP ${response.status}`;
+          retryable = isRetryableStatus(response.status);
+        }
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    } catch (caught) {
+      // Network failures, CORS rejections and timeouts all land here
+      error = caught instanceof DOMException && caught.name === 'AbortError'
+        ? `No response within ${REQUEST_TIMEOUT_MS / 1000}s`
+        : caught instanceof Error ? caught.message : String(caught);
+    }
+
+    if (!error) {
+      console.log('🪝 Webhook delivered:', { deliveryId, url: delivery.url, status: responseStatus });
+      this.updateDelivery(deliveryId, { status: 'delivered', attempts, responseStatus, error: null, lastAttemptAt: new Date(), nextAttemptAt: null });
+      return;
+    }
+
+    if (!retryable || attempts >= MAX_ATTEMPTS) {
+      console.error('❌ Webhook delivery failed:', { deliveryId, url: delivery.url, attempts, error });
+      this.updateDelivery(deliveryId, { status: 'failed', attempts, responseStatus, error, lastAttemptAt: new Date(), nextAttemptAt: null });
+      return;
+    }
+
+    const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+    console.warn(`⚠️ Webhook attempt ${attempts} failed, retrying in ${delay}ms:`, error);
+    this.updateDelivery(deliveryId, {
+      attempts,
+      responseStatus,
+      error,
+      lastAttemptAt: new Date(),
+      nextAttemptAt: new Date(Date.now() + delay),
+    });
+    this.retryTimers.set(deliveryId, setTimeout(() => this.attempt(deliveryId, secret), delay));
+  }
+
+  private updateDelivery(deliveryId: string, changes: Partial<WebhookDelivery>): void {
+    this.saveDeliveries(this.getDeliveries().map(delivery => delivery.id === deliveryId ? { ...delivery, ...changes } : delivery));
+  }
+
+  private saveDeliveries(deliveries: WebhookDelivery[]): void {
+    try {
+      localStorage.setItem(this.LOG_KEY, JSON.stringify(deliveries));
+    } catch (error) {
+      console.error('Failed to save webhook log:', error);
+    }
+    this.listeners.forEach(listener => listener(deliveries));
+  }
+
+  private loadConfigs(): Record<string, WebhookConfig> {
+    try {
+      const stored = localStorage.getItem(this.CONFIGS_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Failed to parse webhook settings:', error);
+      return {};
+    }
+  }
+
+  private saveConfigs(configs: Record<string, WebhookConfig>): void {
+    localStorage.setItem(this.CONFIGS_KEY, JSON.stringify(configs));
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -47,6 +47,24 @@ export interface MailMessageDetail extends MailMessage {
   retentionDate: string;
   text: string;
   html: string[];
+  attachments: MailAttachment[];
+}
+
+export interface MailAttachment {
+  id: string;
+  filename: string;
+  contentType: string;
+  disposition: string;
+  transferEncoding: string;
+  related: boolean;
+  size: number;
+  downloadUrl: string;
+}
+
+export interface MessageSource {
+  id: string;
+  downloadUrl: string;
+  data: string;
 }
 
 export interface AuthToken {
@@ -61,4 +79,12 @@ export interface Domain {
   isPrivate: boolean;
   createdAt: string;
   updatedAt: string;
-}
\ No newline at end of file
+}
+
+export interface PaginatedCollection<T> {
+  items: T[];
+  totalItems: number;
+  page: number;
+  itemsPerPage: number;
+  nextPage: number | null;
+}
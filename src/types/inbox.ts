@@ -0,0 +1,12 @@
+import { MailAccount } from './api';
+
+/**
+ * An inbox open in the app, with what is needed to keep polling it
+ */
+export interface OpenInbox {
+  account: MailAccount;
+  password: string;
+  createdAt: Date;
+  expiresAt: Date | null;
+  token: string;
+}
@@ -0,0 +1,59 @@
+export const LOWERCASE_ALPHANUMERIC = 'abcdefghijklmnopqrstuvwxyz0123456789';
+export const ALPHANUMERIC = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+export const PASSWORD_ALPHABET = `${ALPHANUMERIC}!#$%&*+-=?@^_~`;
+
+/**
+ * Uniform random integer in [0, max) from crypto.getRandomValues.
+ * Uses rejection sampling so no value is favoured by the modulo.
+ */
+export function secureRandomInt(max: number): number {
+  if (!Number.isInteger(max) || max <= 0 || max > 2 ** 32) {
+    throw new RangeError(`Invalid random range: ${max}`);
+  }
+
+  const limit = Math.floor(2 ** 32 / max) * max;
+  const buffer = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+
+  return buffer[0] % max;
+}
+
+/**
+ * Random string of the given length drawn from the alphabet
+ */
+export function generateSecureString(length: number, alphabet: string = ALPHANUMERIC): string {
+  if (alphabet.length < 2) {
+    throw new RangeError('Alphabet must contain at least two characters');
+  }
+
+  let result = '';
+  for (let i = 0; i < length; i++) {
+    result += alphabet[secureRandomInt(alphabet.length)];
+  }
+  return result;
+}
+
+export function generateUsername(length: number = 10): string {
+  return generateSecureString(length, LOWERCASE_ALPHANUMERIC);
+}
+
+export function generatePassword(length: number = 20): string {
+  return generateSecureString(length, PASSWORD_ALPHABET);
+}
+
+/**
+ * Unique identifier for stored records, optionally prefixed (e.g. "user")
+ */
+export function generateId(prefix?: string): string {
+  const id = `${Date.now()}_${generateSecureString(12, LOWERCASE_ALPHANUMERIC)}`;
+  return prefix ? `${prefix}_${id}` : id;
+}
+
+/**
+ * Pick a random element from a non-empty list
+ */
+export function pickRandom<T>(items: T[]): T {
+  return items[secureRandomInt(items.length)];
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { computeExpiresAt, formatDuration, formatTimeLeft, getExpiryStatus, isExpired } from './lifetime';
+
+const MINUTE = 60 * 1000;
+const createdAt = new Date('2026-01-01T10:00:00Z');
+const at = (minutes: number) => createdAt.getTime() + minutes * MINUTE;
+
+describe('getExpiryStatus', () => {
+  const tenMinutes = new Date(at(10));
+
+  it('is ok for the first half of the lifetime', () => {
+    expect(getExpiryStatus(createdAt, tenMinutes, at(4))).toMatchObject({ level: 'ok', timeLeftMs: 6 * MINUTE, progress: 60 });
+  });
+
+  it('warns at half the lifetime and turns critical at the last fifth', () => {
+    expect(getExpiryStatus(createdAt, tenMinutes, at(5)).level).toBe('warning');
+    expect(getExpiryStatus(createdAt, tenMinutes, at(7)).level).toBe('warning');
+    expect(getExpiryStatus(createdAt, tenMinutes, at(8)).level).toBe('critical');
+  });
+
+  it('scales the levels with the lifetime', () => {
+    const day = new Date(at(24 * 60));
+    expect(getExpiryStatus(createdAt, day, at(11 * 60)).level).toBe('ok');
+    expect(getExpiryStatus(createdAt, day, at(20 * 60)).level).toBe('critical');
+  });
+
+  it('is expired once the lifetime has passed', () => {
+    expect(getExpiryStatus(createdAt, tenMinutes, at(12))).toMatchObject({ level: 'expired', timeLeftMs: 0, progress: 0 });
+  });
+
+  it('never expires without an expiry date', () => {
+    expect(getExpiryStatus(createdAt, null, at(60 * 24 * 365))).toMatchObject({ level: 'never', progress: 100 });
+  });
+});
+
+describe('lifetimes', () => {
+  it('computes expiry dates and never expires "forever" inboxes', () => {
+    expect(computeExpiresAt('1h', createdAt)?.getTime()).toBe(at(60));
+    expect(computeExpiresAt('forever', createdAt)).toBeNull();
+    expect(isExpired(null)).toBe(false);
+    expect(isExpired(new Date(at(10)), at(10))).toBe(true);
+  });
+
+  it('formats durations and countdowns', () => {
+    expect(formatDuration(10 * MINUTE)).toBe('10 minutes');
+    expect(formatDuration(60 * MINUTE)).toBe('1 hour');
+    expect(formatDuration(90 * MINUTE)).toBe('90 minutes');
+    expect(formatTimeLeft(9 * MINUTE + 59 * 1000)).toBe('09:59');
+    expect(formatTimeLeft(24 * 60 * MINUTE - 1000)).toBe('23:59:59');
+  });
+});
@@ -0,0 +1,101 @@
+export type InboxLifetime = '10m' | '1h' | '24h' | 'forever';
+
+export interface LifetimeOption {
+  id: InboxLifetime;
+  label: string;
+  durationMs: number | null;
+}
+
+export const LIFETIME_OPTIONS: LifetimeOption[] = [
+  { id: '10m', label: '10 minutes', durationMs: 10 * 60 * 1000 },
+  { id: '1h', label: '1 hour', durationMs: 60 * 60 * 1000 },
+  { id: '24h', label: '24 hours', durationMs: 24 * 60 * 60 * 1000 },
+  { id: 'forever', label: 'Until I delete it', durationMs: null },
+];
+
+export const DEFAULT_INBOX_LIFETIME: InboxLifetime = '10m';
+
+export const EXTENSION_OPTIONS = [
+  { label: '+10 min', durationMs: 10 * 60 * 1000 },
+  { label: '+1 h', durationMs: 60 * 60 * 1000 },
+];
+
+// Share of the lifetime left at which an inbox is flagged
+const WARNING_RATIO = 0.5;
+const CRITICAL_RATIO = 0.2;
+
+export type ExpiryLevel = 'never' | 'ok' | 'warning' | 'critical' | 'expired';
+
+export interface ExpiryStatus {
+  level: ExpiryLevel;
+  timeLeftMs: number | null;
+  totalMs: number | null;
+  /**
+   * Remaining share of the lifetime, 0-100
+   */
+  progress: number;
+}
+
+/**
+ * A whole duration in words, e.g. "10 minutes" or "1 hour"
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes >= 60 && minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+  }
+  return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+}
+
+export function getLifetimeOption(lifetime: InboxLifetime): LifetimeOption {
+  return LIFETIME_OPTIONS.find(option => option.id === lifetime) ?? LIFETIME_OPTIONS[0];
+}
+
+/**
+ * Expiry date for a lifetime starting now, or null when it never expires
+ */
+export function computeExpiresAt(lifetime: InboxLifetime, from: Date = new Date()): Date | null {
+  const { durationMs } = getLifetimeOption(lifetime);
+  return durationMs === null ? null : new Date(from.getTime() + durationMs);
+}
+
+export function isExpired(expiresAt: Date | null, now: number = Date.now()): boolean {
+  return expiresAt !== null && expiresAt.getTime() <= now;
+}
+
+/**
+ * Where an inbox is in its lifetime. Warning levels scale with the
+ * lifetime so a 10 minute and a 24 hour inbox are flagged alike.
+ */
+export function getExpiryStatus(createdAt: Date, expiresAt: Date | null, now: number = Date.now()): ExpiryStatus {
+  if (!expiresAt) {
+    return { level: 'never', timeLeftMs: null, totalMs: null, progress: 100 };
+  }
+
+  const totalMs = Math.max(1, expiresAt.getTime() - createdAt.getTime());
+  const timeLeftMs = Math.max(0, expiresAt.getTime() - now);
+  const ratio = Math.min(1, timeLeftMs / totalMs);
+
+  let level: ExpiryLevel = 'ok';
+  if (timeLeftMs <= 0) {
+    level = 'expired';
+  } else if (ratio <= CRITICAL_RATIO) {
+    level = 'critical';
+  } else if (ratio <= WARNING_RATIO) {
+    level = 'warning';
+  }
+
+  return { level, timeLeftMs, totalMs, progress: ratio * 100 };
+}
+
+/**
+ * Countdown text such as "09:59" or "23:59:59"
+ */
+export function formatTimeLeft(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60).toString().padStart(2, '0');
+  const rest = (seconds % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes}:${rest}` : `${minutes}:${rest}`;
+}
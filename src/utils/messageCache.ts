@@ -0,0 +1,46 @@
+import { InfiniteData, QueryClient } from '@tanstack/react-query';
+import { MailMessage, PaginatedCollection } from '../types/api';
+
+type MessagePage = PaginatedCollection<MailMessage>;
+type MessagePages = InfiniteData<MessagePage>;
+
+/**
+ * Store a freshly fetched first page for an inbox, keeping any later pages
+ * already loaded in the message list
+ */
+export function applyFirstPage(queryClient: QueryClient, accountId: string, page: MessagePage): void {
+  queryClient.setQueryData<MessagePage>(['inbox-summary', accountId], page);
+  queryClient.setQueryData<MessagePages>(['messages', accountId], (data) =>
+    data
+      ? { ...data, pages: [page, ...data.pages.slice(1)] }
+      : { pages: [page], pageParams: [1] }
+  );
+}
+
+/**
+ * Apply a change to every cached message list and inbox summary
+ */
+function updateCachedPages(queryClient: QueryClient, update: (page: MessagePage) => MessagePage): void {
+  queryClient.setQueriesData<MessagePages>({ queryKey: ['messages'] }, (data) =>
+    data ? { ...data, pages: data.pages.map(update) } : data
+  );
+  queryClient.setQueriesData<MessagePage>({ queryKey: ['inbox-summary'] }, (data) =>
+    data ? update(data) : data
+  );
+}
+
+export function markMessageSeen(queryClient: QueryClient, messageId: string): void {
+  updateCachedPages(queryClient, (page) =>
+    page.items.some(m => m.id === messageId && !m.seen)
+      ? { ...page, items: page.items.map(m => (m.id === messageId ? { ...m, seen: true } : m)) }
+      : page
+  );
+}
+
+export function removeCachedMessage(queryClient: QueryClient, messageId: string): void {
+  updateCachedPages(queryClient, (page) =>
+    page.items.some(m => m.id === messageId)
+      ? { ...page, items: page.items.filter(m => m.id !== messageId), totalItems: Math.max(0, page.totalItems - 1) }
+      : page
+  );
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { MailMessage } from '../types/api';
+import { EMPTY_MESSAGE_FILTER, filterMessages, getSenderDomains, splitHighlights } from './messageFilter';
+
+const now = new Date('2026-01-01T12:00:00Z').getTime();
+
+const message = (id: string, overrides: Partial<MailMessage> = {}): MailMessage => ({
+  id,
+  accountId: 'account',
+  msgid: `${id}@example.com`,
+  from: { address: 'noreply@example.com', name: 'Example' },
+  to: [],
+  subject: 'Welcome',
+  intro: '',
+  seen: false,
+  isDeleted: false,
+  hasAttachments: false,
+  size: 0,
+  downloadUrl: '',
+  createdAt: new Date(now).toISOString(),
+  updatedAt: new Date(now).toISOString(),
+  ...overrides,
+});
+
+const messages = [
+  message('a', { subject: 'Your GitHub code', from: { address: 'noreply@github.com', name: 'GitHub' } }),
+  message('b', { seen: true, hasAttachments: true, intro: 'Invoice attached' }),
+  message('c', { createdAt: new Date(now - 2 * 60 * 60 * 1000).toISOString() }),
+];
+const ids = (list: MailMessage[]) => list.map(m => m.id);
+
+describe('filterMessages', () => {
+  it('returns the list untouched without an active filter', () => {
+    expect(filterMessages(messages, EMPTY_MESSAGE_FILTER, now)).toBe(messages);
+  });
+
+  it('requires every search term in sender, subject or intro', () => {
+    expect(ids(filterMessages(messages, { ...EMPTY_MESSAGE_FILTER, query: 'github CODE' }, now))).toEqual(['a']);
+    expect(ids(filterMessages(messages, { ...EMPTY_MESSAGE_FILTER, query: 'invoice' }, now))).toEqual(['b']);
+    expect(ids(filterMessages(messages, { ...EMPTY_MESSAGE_FILTER, query: 'github invoice' }, now))).toEqual([]);
+  });
+
+  it('combines unread, attachment, sender and date filters', () => {
+    expect(ids(filterMessages(messages, { ...EMPTY_MESSAGE_FILTER, unreadOnly: true }, now))).toEqual(['a', 'c']);
+    expect(ids(filterMessages(messages, { ...EMPTY_MESSAGE_FILTER, hasAttachments: true }, now))).toEqual(['b']);
+    expect(ids(filterMessages(messages, { ...EMPTY_MESSAGE_FILTER, senderDomain: 'example.com' }, now))).toEqual(['b', 'c']);
+    expect(ids(filterMessages(messages, { ...EMPTY_MESSAGE_FILTER, dateRange: '1h' }, now))).toEqual(['a', 'b']);
+  });
+});
+
+describe('helpers', () => {
+  it('lists sender domains by frequency', () => {
+    expect(getSenderDomains(messages)).toEqual(['example.com', 'github.com']);
+  });
+
+  it('splits text into highlighted parts', () => {
+    expect(splitHighlights('Your GitHub code', ['github'])).toEqual([
+      { text: 'Your ', match: false },
+      { text: 'GitHub', match: true },
+      { text: ' code', match: false },
+    ]);
+  });
+});
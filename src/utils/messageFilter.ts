@@ -0,0 +1,109 @@
+import { MailMessage } from '../types/api';
+
+export type DateRangeFilter = 'any' | '15m' | '1h' | '24h' | '7d';
+
+export interface MessageFilter {
+  query: string;
+  unreadOnly: boolean;
+  hasAttachments: boolean;
+  /**
+   * Only messages from this sender domain, or null for any sender
+   */
+  senderDomain: string | null;
+  dateRange: DateRangeFilter;
+}
+
+export const EMPTY_MESSAGE_FILTER: MessageFilter = {
+  query: '',
+  unreadOnly: false,
+  hasAttachments: false,
+  senderDomain: null,
+  dateRange: 'any',
+};
+
+export const DATE_RANGE_OPTIONS: { value: DateRangeFilter; label: string; ms: number | null }[] = [
+  { value: 'any', label: 'Any time', ms: null },
+  { value: '15m', label: 'Last 15 minutes', ms: 15 * 60 * 1000 },
+  { value: '1h', label: 'Last hour', ms: 60 * 60 * 1000 },
+  { value: '24h', label: 'Last 24 hours', ms: 24 * 60 * 60 * 1000 },
+  { value: '7d', label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+];
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+export function getSenderDomain(message: MailMessage): string {
+  return message.from?.address?.split('@')[1]?.toLowerCase() ?? '';
+}
+
+/**
+ * Sender domains of the given messages, most frequent first
+ */
+export function getSenderDomains(messages: MailMessage[]): string[] {
+  const counts = new Map<string, number>();
+  for (const message of messages) {
+    const domain = getSenderDomain(message);
+    if (domain) counts.set(domain, (counts.get(domain) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([domain]) => domain);
+}
+
+/**
+ * Lower-cased search terms. Every term has to match for a message to be kept.
+ */
+export function getSearchTerms(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+export function isFilterActive(filter: MessageFilter): boolean {
+  return getSearchTerms(filter.query).length > 0
+    || filter.unreadOnly
+    || filter.hasAttachments
+    || filter.senderDomain !== null
+    || filter.dateRange !== 'any';
+}
+
+/**
+ * Narrow a message list by search terms (sender, subject and intro) and filters
+ */
+export function filterMessages(messages: MailMessage[], filter: MessageFilter, now: number = Date.now()): MailMessage[] {
+  if (!isFilterActive(filter)) return messages;
+
+  const terms = getSearchTerms(filter.query);
+  const rangeMs = DATE_RANGE_OPTIONS.find(option => option.value === filter.dateRange)?.ms ?? null;
+
+  return messages.filter(message => {
+    if (filter.unreadOnly && message.seen) return false;
+    if (filter.hasAttachments && !message.hasAttachments) return false;
+    if (filter.senderDomain && getSenderDomain(message) !== filter.senderDomain) return false;
+    if (rangeMs !== null && now - new Date(message.createdAt).getTime() > rangeMs) return false;
+
+    if (terms.length > 0) {
+      const haystack = [message.from?.name, message.from?.address, message.subject, message.intro]
+        .filter(Boolean)
+        .join('\n')
+        .toLowerCase();
+      return terms.every(term => haystack.includes(term));
+    }
+    return true;
+  });
+}
+
+/**
+ * Split text into matching and non-matching parts for highlighting
+ */
+export function splitHighlights(text: string, terms: string[]): HighlightPart[] {
+  if (!text || terms.length === 0) return [{ text, match: false }];
+
+  const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'gi');
+
+  return text
+    .split(pattern)
+    .filter(part => part.length > 0)
+    .map(part => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+}
@@ -0,0 +1,69 @@
+export type SourceLineKind = 'header' | 'header-continuation' | 'boundary' | 'body' | 'blank';
+
+export interface SourceLine {
+  kind: SourceLineKind;
+  text: string;
+  name?: string;
+  value?: string;
+}
+
+/**
+ * Split an RFC 822 source into classified lines for highlighting.
+ * Header blocks are the top-level headers and the part headers that follow
+ * each MIME boundary, up to the next blank line.
+ */
+export function classifySourceLines(source: string): SourceLine[] {
+  const boundaries = new Set<string>();
+  for (const match of source.matchAll(/boundary="?([^";\r\n]+)"?/gi)) {
+    boundaries.add(match[1].trim());
+  }
+
+  const isBoundary = (line: string) => {
+    if (!line.startsWith('--')) return false;
+    const marker = line.slice(2).replace(/--\s*$/, '').trim();
+    return boundaries.has(marker);
+  };
+
+  let inHeaders = true;
+  return source.split(/\r?\n/).map((text): SourceLine => {
+    if (isBoundary(text)) {
+      inHeaders = true;
+      return { kind: 'boundary', text };
+    }
+
+    if (text.trim() === '') {
+      inHeaders = false;
+      return { kind: 'blank', text };
+    }
+
+    if (inHeaders) {
+      if (/^[ \t]/.test(text)) {
+        return { kind: 'header-continuation', text };
+      }
+
+      const separator = text.indexOf(':');
+      if (separator > 0) {
+        return {
+          kind: 'header',
+          text,
+          name: text.slice(0, separator),
+          value: text.slice(separator + 1),
+        };
+      }
+    }
+
+    return { kind: 'body', text };
+  });
+}
+
+/**
+ * Build a filesystem-safe .eml filename from the message subject
+ */
+export function getEmlFilename(subject: string, messageId: string): string {
+  const base = subject
+    .replace(/[^\w\s.-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .slice(0, 80);
+  return `${base || messageId}.eml`;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { getPollingPlan, HIDDEN_INTERVAL_MS, PollingContext } from './pollingStrategy';
+
+const MINUTE = 60 * 1000;
+
+const context = (overrides: Partial<PollingContext> = {}): PollingContext => ({
+  isLeader: true,
+  isVisible: true,
+  isOnline: true,
+  keepPollingWhileHidden: false,
+  inboxAgeMs: 10 * MINUTE,
+  idleMs: 0,
+  ...overrides,
+});
+
+describe('getPollingPlan', () => {
+  it('never polls from a follower tab', () => {
+    expect(getPollingPlan(context({ isLeader: false }))).toEqual({ interval: false, reason: 'follower' });
+    expect(getPollingPlan(context({ isLeader: false, isVisible: false, keepPollingWhileHidden: true })).interval).toBe(false);
+  });
+
+  it('pauses while offline', () => {
+    expect(getPollingPlan(context({ isOnline: false, keepPollingWhileHidden: true }))).toEqual({ interval: false, reason: 'offline' });
+  });
+
+  it('stops a hidden leader with nothing to announce', () => {
+    expect(getPollingPlan(context({ isVisible: false }))).toEqual({ interval: false, reason: 'hidden' });
+  });
+
+  it('keeps a hidden leader polling slowly while new mail should be announced or forwarded', () => {
+    expect(getPollingPlan(context({ isVisible: false, keepPollingWhileHidden: true, inboxAgeMs: 0 })))
+      .toEqual({ interval: HIDDEN_INTERVAL_MS, reason: 'hidden' });
+  });
+
+  it('polls fast right after the inbox was created', () => {
+    expect(getPollingPlan(context({ inboxAgeMs: MINUTE }))).toEqual({ interval: 2000, reason: 'burst' });
+  });
+
+  it('backs off for every idle minute, up to a minute', () => {
+    expect(getPollingPlan(context({ idleMs: 30 * 1000 }))).toEqual({ interval: 5000, reason: 'active' });
+    expect(getPollingPlan(context({ idleMs: MINUTE }))).toEqual({ interval: 10000, reason: 'backoff' });
+    expect(getPollingPlan(context({ idleMs: 2 * MINUTE }))).toEqual({ interval: 20000, reason: 'backoff' });
+    expect(getPollingPlan(context({ idleMs: 30 * MINUTE }))).toEqual({ interval: 60000, reason: 'backoff' });
+  });
+});
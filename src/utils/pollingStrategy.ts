@@ -0,0 +1,64 @@
+export interface PollingContext {
+  /**
+   * Only the leader tab polls, the others receive its results
+   */
+  isLeader: boolean;
+  isVisible: boolean;
+  isOnline: boolean;
+  /**
+   * New mail still has to be picked up while hidden, for a new-mail signal
+   * (notification, chime, badge) or a webhook
+   */
+  keepPollingWhileHidden: boolean;
+  /**
+   * Time since the inbox was created
+   */
+  inboxAgeMs: number;
+  /**
+   * Time since the last new message, or since creation when none arrived yet
+   */
+  idleMs: number;
+}
+
+export type PollingReason = 'follower' | 'hidden' | 'offline' | 'burst' | 'active' | 'backoff';
+
+export interface PollingPlan {
+  interval: number | false;
+  reason: PollingReason;
+}
+
+// Codes usually arrive within a couple of minutes of signing up
+const BURST_WINDOW_MS = 2 * 60 * 1000;
+const BURST_INTERVAL_MS = 2000;
+const BASE_INTERVAL_MS = 5000;
+const MAX_INTERVAL_MS = 60000;
+// Slow enough for a tab nobody looks at, browsers throttle hidden timers to about this anyway
+export const HIDDEN_INTERVAL_MS = 60000;
+// Double the interval for every idle minute
+const IDLE_STEP_MS = 60 * 1000;
+
+/**
+ * Decide how often to poll: fast right after creating an inbox, backing off
+ * exponentially while nothing arrives, slowly while the page is hidden but
+ * new mail should still be announced or forwarded, and not at all from
+ * follower tabs, while hidden with nothing to do or while the device is offline
+ */
+export function getPollingPlan({ isLeader, isVisible, isOnline, keepPollingWhileHidden, inboxAgeMs, idleMs }: PollingContext): PollingPlan {
+  if (!isLeader) return { interval: false, reason: 'follower' };
+  if (!isOnline) return { interval: false, reason: 'offline' };
+  if (!isVisible) return { interval: keepPollingWhileHidden ? HIDDEN_INTERVAL_MS : false, reason: 'hidden' };
+
+  if (inboxAgeMs < BURST_WINDOW_MS) {
+    return { interval: BURST_INTERVAL_MS, reason: 'burst' };
+  }
+
+  const steps = Math.floor(Math.max(0, idleMs) / IDLE_STEP_MS);
+  if (steps === 0) {
+    return { interval: BASE_INTERVAL_MS, reason: 'active' };
+  }
+
+  return {
+    interval: Math.min(BASE_INTERVAL_MS * 2 ** steps, MAX_INTERVAL_MS),
+    reason: 'backoff',
+  };
+}
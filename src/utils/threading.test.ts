@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { MailMessage } from '../types/api';
+import { buildThreads, isReplySubject, normalizeSubject, parseThreadHeaders } from './threading';
+
+const inbox = { address: 'me@example.com', name: '' };
+
+const message = (id: string, minute: number, overrides: Partial<MailMessage> = {}): MailMessage => ({
+  id,
+  accountId: 'account',
+  msgid: `<${id}@mail.example.com>`,
+  from: { address: 'alice@example.org', name: 'Alice' },
+  to: [inbox],
+  subject: 'Project update',
+  intro: '',
+  seen: true,
+  isDeleted: false,
+  hasAttachments: false,
+  size: 0,
+  downloadUrl: '',
+  createdAt: new Date(Date.UTC(2026, 0, 1, 10, minute)).toISOString(),
+  updatedAt: new Date(Date.UTC(2026, 0, 1, 10, minute)).toISOString(),
+  ...overrides,
+});
+
+const threadIds = (messages: MailMessage[], headers = {}) =>
+  buildThreads(messages, headers).map(thread => thread.messages.map(m => m.id));
+
+describe('normalizeSubject', () => {
+  it('strips reply and forward prefixes, case and whitespace', () => {
+    expect(normalizeSubject('Re: RE[2]: Fwd:  Project   Update ')).toBe('project update');
+    expect(normalizeSubject('AW: Angebot')).toBe('angebot');
+    expect(isReplySubject('Fwd: Project update')).toBe(true);
+    expect(isReplySubject('Project update')).toBe(false);
+  });
+});
+
+describe('parseThreadHeaders', () => {
+  it('reads folded reference headers from the header block only', () => {
+    const source = [
+      'Message-ID: <C@mail.example.com>',
+      'In-Reply-To: <b@mail.example.com>',
+      'References: <a@mail.example.com>',
+      '  <b@mail.example.com>',
+      '',
+      'References: <body@example.com>',
+    ].join('\r\n');
+
+    expect(parseThreadHeaders(source)).toEqual({
+      messageId: 'c@mail.example.com',
+      inReplyTo: 'b@mail.example.com',
+      references: ['a@mail.example.com', 'b@mail.example.com'],
+    });
+  });
+});
+
+describe('buildThreads', () => {
+  it('groups by subject and participants, newest thread first and oldest message first', () => {
+    const messages = [
+      message('reply', 5, { subject: 'Re: Project update' }),
+      message('other', 3, { subject: 'Lunch?' }),
+      message('first', 1),
+    ];
+
+    expect(threadIds(messages)).toEqual([['first', 'reply'], ['other']]);
+  });
+
+  it('keeps mail with a shared subject from different senders apart', () => {
+    const messages = [
+      message('a', 1, { subject: 'Welcome' }),
+      message('b', 2, { subject: 'Welcome', from: { address: 'noreply@shop.example', name: 'Shop' } }),
+    ];
+
+    expect(threadIds(messages)).toEqual([['b'], ['a']]);
+  });
+
+  it('links a reply with a new subject and sender through its reference headers', () => {
+    const messages = [
+      message('first', 1),
+      message('reply', 2, { subject: 'Re: Changed topic', from: { address: 'bob@example.org', name: 'Bob' } }),
+    ];
+    const headers = {
+      reply: { messageId: 'reply@mail.example.com', inReplyTo: 'first@mail.example.com', references: [] },
+    };
+
+    expect(threadIds(messages)).toEqual([['reply'], ['first']]);
+    expect(threadIds(messages, headers)).toEqual([['first', 'reply']]);
+  });
+
+  it('counts unread messages per thread', () => {
+    const [thread] = buildThreads([message('a', 1, { seen: false }), message('b', 2, { seen: false }), message('c', 3)]);
+    expect(thread.unreadCount).toBe(2);
+    expect(thread.latest.id).toBe('c');
+  });
+});
@@ -0,0 +1,157 @@
+import { MailMessage } from '../types/api';
+
+export interface ThreadHeaders {
+  messageId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+}
+
+export interface MessageThread {
+  /**
+   * ID of the first message in the conversation
+   */
+  id: string;
+  subject: string;
+  /**
+   * Oldest first
+   */
+  messages: MailMessage[];
+  latest: MailMessage;
+  unreadCount: number;
+}
+
+// Reply and forward prefixes, including common localised ones and counters like "Re[2]:"
+const SUBJECT_PREFIX = /^\s*((re|fw|fwd|aw|wg|sv|vs|antw|tr|rif)(\[\d+\])?\s*:\s*)+/i;
+
+/**
+ * Subject without reply/forward prefixes, case or extra whitespace
+ */
+export function normalizeSubject(subject: string | undefined): string {
+  let normalized = (subject ?? '').trim();
+  while (SUBJECT_PREFIX.test(normalized)) {
+    normalized = normalized.replace(SUBJECT_PREFIX, '');
+  }
+  return normalized.replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Whether a subject carries a reply or forward prefix
+ */
+export function isReplySubject(subject: string | undefined): boolean {
+  return SUBJECT_PREFIX.test(subject ?? '');
+}
+
+/**
+ * Sender and recipient addresses, so unrelated mail with a shared subject
+ * such as "Welcome" stays apart
+ */
+function getParticipants(message: MailMessage): string {
+  const addresses = [message.from?.address, ...(message.to ?? []).map(recipient => recipient.address)]
+    .filter((address): address is string => !!address)
+    .map(address => address.trim().toLowerCase());
+  return [...new Set(addresses)].sort().join(',');
+}
+
+function normalizeMessageId(value: string): string {
+  return value.trim().replace(/^<|>$/g, '').toLowerCase();
+}
+
+function parseIdList(value: string | undefined): string[] {
+  return (value?.match(/<[^>]+>/g) ?? []).map(normalizeMessageId);
+}
+
+/**
+ * Read Message-ID, In-Reply-To and References from a raw MIME source
+ */
+export function parseThreadHeaders(source: string): ThreadHeaders {
+  const headerBlock = source.split(/\r?\n\r?\n/, 1)[0] ?? '';
+  // Unfold continuation lines before splitting into headers
+  const lines = headerBlock.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/);
+
+  const headers = new Map<string, string>();
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const name = line.slice(0, separator).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(separator + 1).trim());
+  }
+
+  const messageId = headers.get('message-id');
+  return {
+    messageId: messageId ? normalizeMessageId(messageId) : null,
+    inReplyTo: parseIdList(headers.get('in-reply-to'))[0] ?? null,
+    references: parseIdList(headers.get('references')),
+  };
+}
+
+/**
+ * Group messages into conversations. Messages join a thread when their
+ * normalized subjects and participants match or when one references the
+ * other's Message-ID. Reference headers are only known for messages whose
+ * source was loaded and are passed in by message ID. Threads are returned
+ * newest activity first.
+ */
+export function buildThreads(messages: MailMessage[], headers: Record<string, ThreadHeaders> = {}): MessageThread[] {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent.set(rootB, rootA);
+  };
+
+  const byConversation = new Map<string, string>();
+  const byMessageId = new Map<string, string>();
+
+  for (const message of messages) {
+    parent.set(message.id, message.id);
+    const msgid = headers[message.id]?.messageId ?? (message.msgid ? normalizeMessageId(message.msgid) : null);
+    if (msgid) byMessageId.set(msgid, message.id);
+  }
+
+  for (const message of messages) {
+    const subject = normalizeSubject(message.subject);
+    if (subject) {
+      const key = `${subject}\n${getParticipants(message)}`;
+      const first = byConversation.get(key);
+      if (first) union(first, message.id);
+      else byConversation.set(key, message.id);
+    }
+
+    const messageHeaders = headers[message.id];
+    if (messageHeaders) {
+      const referenced = [messageHeaders.inReplyTo, ...messageHeaders.references].filter((id): id is string => !!id);
+      for (const reference of referenced) {
+        const other = byMessageId.get(reference);
+        if (other) union(other, message.id);
+      }
+    }
+  }
+
+  const groups = new Map<string, MailMessage[]>();
+  for (const message of messages) {
+    const root = find(message.id);
+    groups.set(root, [...(groups.get(root) ?? []), message]);
+  }
+
+  const time = (message: MailMessage) => new Date(message.createdAt).getTime();
+
+  return [...groups.values()]
+    .map(group => {
+      const sorted = [...group].sort((a, b) => time(a) - time(b));
+      const latest = sorted[sorted.length - 1];
+      return {
+        id: sorted[0].id,
+        subject: sorted[0].subject,
+        messages: sorted,
+        latest,
+        unreadCount: sorted.filter(message => !message.seen).length,
+      };
+    })
+    .sort((a, b) => time(b.latest) - time(a.latest));
+}
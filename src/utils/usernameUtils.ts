@@ -0,0 +1,45 @@
+import { format } from 'date-fns';
+
+export const DEFAULT_USERNAME_TEMPLATE = 'qa-{date}-{n}';
+
+const USERNAME_PATTERN = /^[a-z0-9](?:[a-z0-9._-]*[a-z0-9])?$/;
+const MIN_USERNAME_LENGTH = 3;
+const MAX_USERNAME_LENGTH = 64;
+
+/**
+ * Validate the local part of an address, returning an error message or null
+ */
+export function validateUsername(username: string): string | null {
+  if (username.length < MIN_USERNAME_LENGTH) {
+    return `Username must be at least ${MIN_USERNAME_LENGTH} characters`;
+  }
+  if (username.length > MAX_USERNAME_LENGTH) {
+    return `Username must be at most ${MAX_USERNAME_LENGTH} characters`;
+  }
+  if (!USERNAME_PATTERN.test(username)) {
+    return 'Use lowercase letters, digits, dots, dashes or underscores, starting and ending with a letter or digit';
+  }
+  if (/[._-]{2}/.test(username)) {
+    return 'Username cannot contain consecutive separators';
+  }
+  return null;
+}
+
+/**
+ * Expand the date placeholders of a template, leaving {n} in place.
+ * The result identifies the counter series the template belongs to.
+ */
+export function getTemplateSeries(template: string, now: Date = new Date()): string {
+  return template
+    .toLowerCase()
+    .replace(/\{date\}/g, format(now, 'yyyyMMdd'))
+    .replace(/\{time\}/g, format(now, 'HHmm'));
+}
+
+/**
+ * Expand a username template such as "qa-{date}-{n}".
+ * Supported placeholders: {date} (yyyyMMdd), {time} (HHmm), {n} (sequence number)
+ */
+export function expandUsernameTemplate(template: string, sequence: number, now: Date = new Date()): string {
+  return getTemplateSeries(template, now).replace(/\{n\}/g, String(sequence));
+}
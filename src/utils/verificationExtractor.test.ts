@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { extractVerifications, getBestVerification, isConfidentVerification } from './verificationExtractor';
+
+const codesIn = (text: string) => extractVerifications({ text }).filter(c => c.kind === 'code').map(c => c.value);
+
+describe('extractVerifications', () => {
+  describe('phone numbers', () => {
+    it('does not take digit groups of a phone number as a code', () => {
+      expect(codesIn('Meet at 10:30, room 204, phone +1 415 555 0199')).toEqual([]);
+      expect(codesIn('Call +44 1234 567890 today')).toEqual([]);
+      expect(codesIn('Our hotline 0800 555 0199 is open')).toEqual([]);
+    });
+
+    it('still reads a code split into two groups', () => {
+      expect(codesIn('Your verification code is 123 456')).toEqual(['123456']);
+      expect(codesIn('Your code: 123-456')).toEqual(['123456']);
+    });
+  });
+
+  describe('keywords', () => {
+    it('ranks a keyword-backed code above a bare 6-digit number', () => {
+      const [best, other] = extractVerifications({ text: 'Order 482913 confirmed. Your code is 771204.' });
+      expect(best.value).toBe('771204');
+      expect(other.value).toBe('482913');
+      expect(best.score).toBeGreaterThan(other.score);
+    });
+
+    it('only offers bare numbers in the 6-digit shape', () => {
+      expect(codesIn('Your order 482913 has shipped')).toEqual(['482913']);
+      expect(codesIn('Ticket 4829 was updated')).toEqual([]);
+      expect(codesIn('Your PIN is 4829')).toEqual(['4829']);
+    });
+
+    it('ignores years, amounts and times', () => {
+      expect(codesIn('Copyright 2024, total $123456, at 10:30')).toEqual([]);
+    });
+
+    it('requires a keyword for letter and digit codes', () => {
+      expect(codesIn('Security code A7K9QZ')).toEqual(['A7K9QZ']);
+      expect(codesIn('Shipment A7K9QZ is on its way')).toEqual([]);
+    });
+  });
+
+  it('prefers the subject over the body', () => {
+    const best = getBestVerification({ subject: 'Your code is 111111', text: 'Your code is 222222' });
+    expect(best?.value).toBe('111111');
+  });
+
+  it('finds verification links and skips unsubscribe links', () => {
+    const html = ['<a href="https://example.com/unsubscribe">Unsubscribe</a><a href="https://example.com/v?t=1">Verify email</a>'];
+    expect(extractVerifications({ html }).map(c => c.value)).toEqual(['https://example.com/v?t=1']);
+  });
+});
+
+describe('isConfidentVerification', () => {
+  it('trusts keyword-backed codes and links only', () => {
+    const confident = (text: string) => {
+      const best = getBestVerification({ text });
+      return best ? isConfidentVerification(best) : null;
+    };
+
+    expect(confident('Your verification code is 123456')).toBe(true);
+    expect(confident('Confirm your address: https://example.com/confirm?t=abc')).toBe(true);
+    expect(confident('Your order 482913 has shipped')).toBe(false);
+    expect(confident('Use 839201 to continue')).toBe(false);
+  });
+});
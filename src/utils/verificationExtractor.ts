@@ -0,0 +1,178 @@
+export type VerificationKind = 'code' | 'link';
+
+export interface VerificationCandidate {
+  kind: VerificationKind;
+  value: string;
+  /**
+   * Higher is more likely to be what the user is after
+   */
+  score: number;
+}
+
+/**
+ * The parts of a message that are scanned. A list entry only has subject and
+ * intro, an opened message also has the full text and HTML.
+ */
+export interface VerificationSource {
+  subject?: string;
+  intro?: string;
+  text?: string;
+  html?: string[];
+}
+
+// Words that usually sit right before a one-time code
+const CODE_KEYWORDS = /\b(code|otp|pin|passcode|password|verification|verify|one[- ]time|security|confirmation|token|c[oó]digo)\b/i;
+// How far back from a code to look for one of the keywords
+const KEYWORD_WINDOW = 60;
+const LINK_KEYWORDS = /(verif|confirm|activat|validat|magic|sign[-_ ]?in|log[-_ ]?in|auth|reset|token|invite|accept)/i;
+const IGNORED_LINKS = /(unsubscribe|privacy|terms|preferences|\.(png|jpe?g|gif|svg|css|js)(\?|$))/i;
+
+// 4-8 digits, optionally split into two groups by a space or dash (123 456),
+// but not a slice of a longer run of groups such as +1 415 555 0199
+const DIGIT_CODE_PATTERN = /(?<![\w$€£.,:/+-])(?<![+\d][ -])(\d{3,4}[ -]\d{3,4}|\d{4,8})(?![\w%]|[.,:/ -]\d)/g;
+// 6-8 upper case letters and digits with at least one of each (A7K9QZ)
+const ALNUM_CODE_PATTERN = /\b(?=[A-Z0-9]*\d)(?=[A-Z0-9]*[A-Z])[A-Z0-9]{6,8}\b/g;
+// Keyword-backed codes score 26 and more, links 15 and more, bare 6-digit numbers at most 13
+const CONFIDENT_SCORE = 15;
+const URL_PATTERN = /https?:\/\/[^\s"'<>)\]]+/g;
+const ANCHOR_PATTERN = /<a\b[^>]*?href\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi;
+
+const ENTITIES: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(nbsp|amp|lt|gt|quot|#39);/g, entity => ENTITIES[entity]);
+}
+
+/**
+ * Plain text of an HTML body, without markup, styles or scripts
+ */
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(style|script|head)\b[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<br\s*\/?>|<\/(p|div|tr|li|h\d)>/gi, '\n')
+      .replace(/<[^>]+>/g, ' ')
+  ).replace(/[ \t]+/g, ' ');
+}
+
+function hasKeywordBefore(text: string, index: number): boolean {
+  return CODE_KEYWORDS.test(text.slice(Math.max(0, index - KEYWORD_WINDOW), index));
+}
+
+function looksLikeYear(code: string): boolean {
+  return /^(19|20)\d{2}$/.test(code);
+}
+
+function extractCodes(source: string, weight: number): VerificationCandidate[] {
+  const candidates: VerificationCandidate[] = [];
+  // Digits inside links are ids and tracking parameters, not codes
+  const text = source.replace(URL_PATTERN, ' ');
+
+  for (const match of text.matchAll(DIGIT_CODE_PATTERN)) {
+    const value = match[1].replace(/[ -]/g, '');
+    if (value.length < 4 || value.length > 8) continue;
+
+    const nearKeyword = hasKeywordBefore(text, match.index ?? 0);
+    // Without a keyword only the classic 6-digit shape is worth offering
+    if (!nearKeyword && (value.length !== 6 || looksLikeYear(value))) continue;
+
+    const score = (nearKeyword ? 20 : 0) + (value.length === 6 ? 10 : 6) + weight;
+    candidates.push({ kind: 'code', value, score });
+  }
+
+  for (const match of text.matchAll(ALNUM_CODE_PATTERN)) {
+    // Upper case words and reference numbers are common, so require a keyword
+    if (!hasKeywordBefore(text, match.index ?? 0)) continue;
+    candidates.push({ kind: 'code', value: match[0], score: 18 + weight });
+  }
+
+  return candidates;
+}
+
+function scoreLink(url: string, label: string): number | null {
+  if (IGNORED_LINKS.test(url) || IGNORED_LINKS.test(label)) return null;
+
+  let score = 0;
+  if (LINK_KEYWORDS.test(label)) score += 25;
+  if (LINK_KEYWORDS.test(url)) score += 15;
+  return score > 0 ? score : null;
+}
+
+function extractLinks(source: VerificationSource): VerificationCandidate[] {
+  const candidates: VerificationCandidate[] = [];
+  const anchored = new Set<string>();
+
+  for (const html of source.html ?? []) {
+    for (const match of html.matchAll(ANCHOR_PATTERN)) {
+      const url = decodeEntities(match[1]);
+      if (!/^https?:\/\//i.test(url)) continue;
+
+      anchored.add(url);
+      const score = scoreLink(url, htmlToText(match[2]));
+      if (score !== null) candidates.push({ kind: 'link', value: url, score });
+    }
+  }
+
+  const plain = [source.intro, source.text].filter(Boolean).join('\n');
+  for (const match of plain.matchAll(URL_PATTERN)) {
+    const url = match[0].replace(/[.,;:!?]+$/, '');
+    if (anchored.has(url)) continue;
+
+    // Text bodies put the call to action on the line before the link
+    const lineStart = plain.lastIndexOf('\n', Math.max(0, (match.index ?? 0) - 2));
+    const label = plain.slice(Math.max(0, lineStart), match.index);
+    const score = scoreLink(url, label);
+    if (score !== null) candidates.push({ kind: 'link', value: url, score });
+  }
+
+  return candidates;
+}
+
+/**
+ * Find one-time codes and verification or magic links in a message, best
+ * candidate first. Matches in the subject and intro weigh slightly more than
+ * matches deep in the body.
+ */
+export function extractVerifications(source: VerificationSource): VerificationCandidate[] {
+  const bodyText = [source.text, ...(source.html ?? []).map(htmlToText)].filter(Boolean).join('\n');
+
+  const candidates = [
+    ...extractCodes(source.subject ?? '', 3),
+    ...extractCodes(source.intro ?? '', 2),
+    ...extractCodes(bodyText, 0),
+    ...extractLinks(source),
+  ];
+
+  // Keep the best score for each value
+  const best = new Map<string, VerificationCandidate>();
+  for (const candidate of candidates) {
+    const existing = best.get(candidate.value);
+    if (!existing || candidate.score > existing.score) {
+      best.set(candidate.value, candidate);
+    }
+  }
+
+  // Codes win ties, they are what people copy most
+  return [...best.values()].sort((a, b) =>
+    b.score - a.score || (a.kind === b.kind ? 0 : a.kind === 'code' ? -1 : 1)
+  );
+}
+
+export function getBestVerification(source: VerificationSource): VerificationCandidate | null {
+  return extractVerifications(source)[0] ?? null;
+}
+
+/**
+ * Whether a candidate is certain enough to act on without the user picking it,
+ * e.g. to copy it automatically. A bare number could be an order or phone number.
+ */
+export function isConfidentVerification(candidate: VerificationCandidate): boolean {
+  return candidate.score >= CONFIDENT_SCORE;
+}